@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+// Stand-in for a CLI agent, to try the agent shortcuts without network access.
+// Echoes what it receives; bracketed pastes are shown as one block.
+//   node examples/fake-agent.js             new session
+//   node examples/fake-agent.js --continue  "resumed" session
+//   node examples/fake-agent.js "question"  session with a first prompt
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+const args = process.argv.slice(2);
+const resumed = args.includes('--continue');
+const prompt = args.filter(a => a !== '--continue').join(' ');
+
+process.stdout.write(resumed ? 'fake-agent: session précédente reprise\n' : 'fake-agent: nouvelle session\n');
+if (prompt) process.stdout.write(`fake-agent: question reçue: ${prompt}\n`);
+
+if (!process.stdin.isTTY) {
+  process.stdout.write('fake-agent: pas de terminal interactif\n');
+  process.exit(0);
+}
+
+// Ask the terminal to wrap pastes in PASTE_START/PASTE_END
+process.stdout.write('\x1b[?2004h> ');
+process.stdin.setRawMode(true);
+process.stdin.setEncoding('utf8');
+
+let buffer = '';
+let line = '';
+process.stdin.on('data', chunk => {
+  buffer += chunk;
+  while (buffer) {
+    if (buffer.startsWith(PASTE_START)) {
+      const end = buffer.indexOf(PASTE_END);
+      if (end < 0) return; // rest of the paste in the next chunk
+      const pasted = buffer.slice(PASTE_START.length, end);
+      buffer = buffer.slice(end + PASTE_END.length);
+      // terminals send pasted newlines as \r
+      const lines = pasted.split(/\r\n|\r|\n/);
+      line += pasted;
+      process.stdout.write(`\n[collage: ${lines.length} ligne(s)]\n${lines.join('\n')}\n> `);
+      continue;
+    }
+    const c = buffer[0];
+    buffer = buffer.slice(1);
+    if (c === '\x03' || c === '\x04') {
+      process.stdout.write('\x1b[?2004l\nfake-agent: fin\n');
+      process.exit(0);
+    } else if (c === '\r' || c === '\n') {
+      process.stdout.write(`\nfake-agent: reçu ${line.length} caractère(s)\n> `);
+      line = '';
+    } else if (c === '\x7f') {
+      line = line.slice(0, -1);
+    } else {
+      line += c;
+      process.stdout.write(c);
+    }
+  }
+});
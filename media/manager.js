@@ -0,0 +1,461 @@
+// Webview side of the shortcut manager (see src/manager.ts). No inline handlers:
+// everything is wired here, under the panel's Content Security Policy.
+(function () {
+  const vscode = acquireVsCodeApi();
+  const $ = (selector) => document.querySelector(selector);
+  const form = $('#form');
+  const fields = form.elements;
+  const tbody = $('#list tbody');
+
+  let shortcuts = [];
+  let folders = [];
+  let codicons = new Set();
+  let strings = {}; // translations sent by the host with 'init'
+  let selectedKey = vscode.getState()?.selectedKey; // undefined: new shortcut or nothing
+  let original; // config loaded in the form
+  let dirty = false;
+  let pendingSelect; // { id, folder } of a shortcut being created
+  let pendingDiscard; // continuation waiting for the host's confirmation
+
+  // English message → translation, {0}… replaced by the arguments
+  const t = (message, ...args) => (strings[message] ?? message).replace(/\{(\d+)\}/g, (m, i) => args[i] ?? m);
+
+  // ---- list ----
+
+  function renderList() {
+    const filter = $('#filter').value.trim().toLowerCase();
+    tbody.replaceChildren();
+    for (const s of shortcuts) {
+      const c = s.config;
+      const text = [c.label, c.id, s.summary, c.group].join(' ').toLowerCase();
+      if (filter && !text.includes(filter)) continue;
+      const row = document.createElement('tr');
+      row.draggable = true;
+      row.dataset.key = s.key;
+      if (s.key === selectedKey) row.classList.add('selected');
+      const preview = s.previews.dark || s.previews.light;
+      const iconCell = document.createElement('td');
+      if (preview) {
+        const img = document.createElement('img');
+        img.src = preview;
+        img.alt = '';
+        iconCell.append(img);
+      }
+      row.append(iconCell);
+      for (const value of [c.label, c.id, s.summary, c.group || '', s.folderName ? `${s.source} · ${s.folderName}` : s.source]) {
+        const cell = document.createElement('td');
+        cell.textContent = value;
+        cell.title = value;
+        row.append(cell);
+      }
+      tbody.append(row);
+    }
+  }
+
+  tbody.addEventListener('click', (e) => {
+    const row = e.target.closest('tr');
+    if (row) select(row.dataset.key);
+  });
+  tbody.addEventListener('dragstart', (e) => {
+    const row = e.target.closest('tr');
+    if (row) e.dataTransfer.setData('text/plain', row.dataset.key);
+  });
+  tbody.addEventListener('dragover', (e) => {
+    if (e.target.closest('tr')) e.preventDefault();
+  });
+  tbody.addEventListener('drop', (e) => {
+    const row = e.target.closest('tr');
+    const key = e.dataTransfer.getData('text/plain');
+    e.preventDefault();
+    if (row && key && key !== row.dataset.key) vscode.postMessage({ type: 'move', key, before: row.dataset.key });
+  });
+  $('#filter').addEventListener('input', renderList);
+  $('#new').addEventListener('click', () => confirmDiscard(() => {
+    selectedKey = undefined;
+    vscode.setState({ selectedKey });
+    fill({ id: '', label: '', command: '', reuse: true, focus: true, codicon: 'terminal', location: 'editor' }, true);
+    renderList();
+  }));
+
+  // ---- form ----
+
+  function select(key) {
+    if (key === selectedKey && !form.hidden) return;
+    confirmDiscard(() => {
+      const s = shortcuts.find(x => x.key === key);
+      if (!s) return;
+      selectedKey = key;
+      vscode.setState({ selectedKey });
+      fill(s.config, false);
+      renderList();
+    });
+  }
+
+  // Webviews cannot open dialogs: the host asks
+  function confirmDiscard(then) {
+    if (!dirty) return then();
+    pendingDiscard = then;
+    vscode.postMessage({ type: 'confirmDiscard' });
+  }
+
+  function fill(config, isNew) {
+    original = config;
+    form.hidden = false;
+    $('#form-title').textContent = isNew ? t('New shortcut') : config.label;
+    $('#stale').hidden = true;
+    for (const name of ['id', 'label', 'terminalName', 'cwd', 'shellPath', 'terminalProfile', 'group', 'when', 'codicon', 'statusBarText', 'statusBarColor', 'readyPattern', 'errorPattern']) {
+      fields[name].value = config[name] ?? '';
+    }
+    fields.command.value = [].concat(config.command ?? '').join('\n');
+    fields.readyPort.value = config.readyPort ?? '';
+    fields.dependsOn.value = [].concat(config.dependsOn ?? []).join(', ');
+    fields.envFile.value = [].concat(config.envFile ?? []).join(', ');
+    fields.background.checked = !!config.background;
+    fields.autoStart.checked = !!config.autoStart;
+    fields.steps.value = config.steps ? JSON.stringify(config.steps, null, 2) : '';
+    fields.args.value = config.args ? JSON.stringify(config.args, null, 2) : '';
+    fields.location.value = config.location || 'editor';
+    fields.viewColumn.value = String(config.viewColumn ?? 0);
+    fields.instancePolicy.value = config.instancePolicy ?? '';
+    fields.statusBarAlignment.value = config.statusBarAlignment ?? '';
+    fields.statusBarPriority.value = config.statusBarPriority ?? '';
+    fields.statusBarBackground.value = config.statusBarBackground ?? '';
+    fields.reuse.checked = config.reuse !== false;
+    fields.focus.checked = config.focus !== false;
+    fields.sendEnter.checked = config.sendEnter !== false;
+    fields.statusBar.checked = !!config.statusBar;
+    fields.confirm.checked = !!config.confirm;
+    fields.confirmMessage.value = typeof config.confirm === 'string' ? config.confirm : '';
+    fields.iconLight.value = config.icon?.light ?? '';
+    fields.iconDark.value = config.icon?.dark ?? '';
+    const s = shortcuts.find(x => x.key === selectedKey);
+    setPreview('light', isNew ? undefined : s?.previews.light);
+    setPreview('dark', isNew ? undefined : s?.previews.dark);
+    $('#env').replaceChildren();
+    for (const [k, v] of Object.entries(config.env ?? {})) addEnvRow(k, v);
+    $('#target').hidden = !isNew;
+    $('#folder-field').hidden = folders.length < 2;
+    for (const id of ['#duplicate', '#assign-key', '#origin', '#delete']) $(id).hidden = isNew;
+    $('#keybinding').textContent = config.keybinding ? t('Key binding: {0}', config.keybinding) : '';
+    dirty = false;
+    validate();
+  }
+
+  function addEnvRow(key = '', value = '') {
+    const row = document.createElement('div');
+    row.className = 'env-row';
+    const k = document.createElement('input');
+    k.placeholder = t('NAME');
+    k.value = key;
+    k.className = 'env-key';
+    const v = document.createElement('input');
+    v.placeholder = t('value');
+    v.value = value;
+    v.className = 'env-value';
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.textContent = '✕';
+    remove.title = t('Remove');
+    remove.addEventListener('click', () => { row.remove(); changed(); });
+    row.append(k, v, remove);
+    $('#env').append(row);
+  }
+
+  // Fields the form does not show (order, keybinding…) are kept from the original
+  function collect() {
+    const config = { ...original };
+    const text = (name) => fields[name].value.trim();
+    const optional = (name, value) => {
+      if (value) config[name] = value;
+      else if (original[name] === '') config[name] = '';
+      else delete config[name];
+    };
+    // Unset in the shortcut and left as shown: stays unset, so that the lower
+    // layers still apply
+    const setting = (name, value, shown) => {
+      if (name in original || value !== shown) config[name] = value;
+    };
+    config.id = text('id');
+    config.label = text('label');
+    for (const name of ['terminalName', 'cwd', 'shellPath', 'terminalProfile', 'group', 'when', 'codicon', 'statusBarText', 'statusBarColor', 'readyPattern', 'errorPattern']) optional(name, text(name));
+    // One line per command: several lines are saved as an array
+    const lines = text('command').split('\n').map(line => line.trim()).filter(Boolean);
+    optional('command', lines.length > 1 ? lines : lines[0]);
+    optional('readyPort', text('readyPort') ? Number(text('readyPort')) : undefined);
+    const dependsOn = text('dependsOn').split(',').map(id => id.trim()).filter(Boolean);
+    optional('dependsOn', dependsOn.length > 1 ? dependsOn : dependsOn[0]);
+    const envFile = text('envFile').split(',').map(file => file.trim()).filter(Boolean);
+    optional('envFile', envFile.length > 1 ? envFile : envFile[0]);
+    optional('background', fields.background.checked || undefined);
+    optional('autoStart', fields.autoStart.checked || undefined);
+    try {
+      optional('steps', text('steps') ? JSON.parse(text('steps')) : undefined);
+    } catch {
+      // reported by validate()
+    }
+    try {
+      optional('args', text('args') ? JSON.parse(text('args')) : undefined);
+    } catch {
+      // reported by validate()
+    }
+    const env = {};
+    for (const row of $('#env').children) {
+      const key = row.querySelector('.env-key').value.trim();
+      if (key) env[key] = row.querySelector('.env-value').value;
+    }
+    optional('env', Object.keys(env).length ? env : undefined);
+    setting('location', fields.location.value, 'editor');
+    const column = Number(fields.viewColumn.value);
+    if (column || original.viewColumn !== undefined) config.viewColumn = column;
+    else delete config.viewColumn;
+    setting('reuse', fields.reuse.checked, true);
+    optional('instancePolicy', fields.instancePolicy.value);
+    optional('statusBarAlignment', fields.statusBarAlignment.value);
+    if (text('statusBarPriority')) config.statusBarPriority = Number(text('statusBarPriority')); // 0 is a valid priority
+    else delete config.statusBarPriority;
+    optional('statusBarBackground', fields.statusBarBackground.value);
+    setting('focus', fields.focus.checked, true);
+    if (fields.sendEnter.checked) delete config.sendEnter;
+    else config.sendEnter = false;
+    setting('statusBar', fields.statusBar.checked, false);
+    optional('confirm', fields.confirm.checked ? (text('confirmMessage') || true) : undefined);
+    const icon = {};
+    if (text('iconLight')) icon.light = text('iconLight');
+    if (text('iconDark')) icon.dark = text('iconDark');
+    optional('icon', Object.keys(icon).length ? icon : undefined);
+    return config;
+  }
+
+  // Inline messages under each field; returns false when saving must be blocked
+  function validate() {
+    form.querySelectorAll('.message').forEach(m => m.remove());
+    form.querySelectorAll('.invalid').forEach(m => m.classList.remove('invalid'));
+    const errors = [];
+    const report = (element, message, warning = false) => {
+      const note = document.createElement('small');
+      note.className = warning ? 'message warning' : 'message';
+      note.textContent = message;
+      element.classList.add('invalid');
+      element.closest('label, fieldset').append(note);
+      if (!warning) errors.push(message);
+    };
+    const id = fields.id.value.trim();
+    const folder = selectedKey ? shortcuts.find(x => x.key === selectedKey)?.folder : targetFolder();
+    if (!id) report(fields.id, t('Identifier required.'));
+    else if (/[\s:]/.test(id)) report(fields.id, t('No spaces or “:”.'));
+    else if (shortcuts.some(s => s.config.id === id && s.key !== selectedKey && s.folder === folder)) report(fields.id, t('Identifier already used.'));
+    if (!fields.label.value.trim()) report(fields.label, t('Label required.'));
+    let steps;
+    if (fields.steps.value.trim()) {
+      try {
+        steps = JSON.parse(fields.steps.value);
+        if (!Array.isArray(steps)) report(fields.steps, t('A JSON array is expected.'));
+      } catch (e) {
+        report(fields.steps, t('Invalid JSON: {0}', e.message));
+      }
+    }
+    if (!fields.command.value.trim() && !steps) report(fields.command, t('Command (or steps) required.'));
+    if (fields.args.value.trim()) {
+      try {
+        const args = JSON.parse(fields.args.value);
+        if (!Array.isArray(args)) report(fields.args, t('A JSON array is expected.'));
+        else if (args.some(arg => typeof arg?.name !== 'string' || !arg.name)) report(fields.args, t('Each argument needs a "name".'));
+      } catch (e) {
+        report(fields.args, t('Invalid JSON: {0}', e.message));
+      }
+    }
+    const keys = new Set();
+    for (const row of $('#env').children) {
+      const input = row.querySelector('.env-key');
+      const key = input.value.trim();
+      if (!key && row.querySelector('.env-value').value) report(input, t('Variable name required.'));
+      else if (key && keys.has(key)) report(input, t('“{0}” is duplicated.', key));
+      keys.add(key);
+    }
+    for (const name of ['readyPattern', 'errorPattern']) {
+      try {
+        new RegExp(fields[name].value);
+      } catch (e) {
+        report(fields[name], t('Invalid regular expression: {0}', e.message));
+      }
+    }
+    const codicon = fields.codicon.value.trim();
+    if (codicon && codicons.size && !codicons.has(codicon)) report(fields.codicon, t('Unknown codicon.'), true);
+    return errors.length === 0;
+  }
+
+  function targetFolder() {
+    if (fields.target.value === 'user') return undefined;
+    return fields.folder.value || folders[0]?.uri;
+  }
+
+  function changed() {
+    dirty = true;
+    validate();
+  }
+
+  form.addEventListener('input', (e) => {
+    if (e.target.name === 'iconLight' || e.target.name === 'iconDark') requestPreview(e.target.name === 'iconLight' ? 'light' : 'dark');
+    changed();
+  });
+  form.addEventListener('change', changed);
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    if (!validate()) return;
+    const config = collect();
+    if (selectedKey) {
+      vscode.postMessage({ type: 'save', key: selectedKey, config });
+    } else {
+      const folder = targetFolder();
+      pendingSelect = { id: config.id, folder };
+      vscode.postMessage({ type: 'save', config, target: fields.target.value, folder });
+    }
+  });
+  $('#add-env').addEventListener('click', () => { addEnvRow(); changed(); });
+  $('#add-secret').addEventListener('click', () => vscode.postMessage({ type: 'addSecret' }));
+  $('#pick-terminal').addEventListener('click', () => vscode.postMessage({ type: 'pickTerminalName' }));
+  $('#duplicate').addEventListener('click', () => {
+    if (validate()) vscode.postMessage({ type: 'duplicateGlobal', config: collect() });
+  });
+  $('#assign-key').addEventListener('click', () => vscode.postMessage({ type: 'assignKeybinding', key: selectedKey }));
+  $('#origin').addEventListener('click', () => vscode.postMessage({ type: 'showOrigin', key: selectedKey }));
+  $('#delete').addEventListener('click', () => vscode.postMessage({ type: 'delete', key: selectedKey }));
+  $('#reload').addEventListener('click', () => {
+    const s = shortcuts.find(x => x.key === selectedKey);
+    if (s) fill(s.config, false);
+  });
+  $('#cancel').addEventListener('click', () => confirmDiscard(() => {
+    form.hidden = true;
+    dirty = false;
+    selectedKey = undefined;
+    vscode.setState({ selectedKey });
+    renderList();
+  }));
+  for (const button of form.querySelectorAll('[data-pick]')) {
+    button.addEventListener('click', () => vscode.postMessage({
+      type: 'pickIcon',
+      variant: button.dataset.pick,
+      folder: selectedKey ? shortcuts.find(x => x.key === selectedKey)?.folder : targetFolder()
+    }));
+  }
+
+  // ---- icons ----
+
+  let previewTimer;
+  function requestPreview(variant) {
+    clearTimeout(previewTimer);
+    previewTimer = setTimeout(() => vscode.postMessage({
+      type: 'previewIcon',
+      variant,
+      path: fields[variant === 'light' ? 'iconLight' : 'iconDark'].value,
+      folder: selectedKey ? shortcuts.find(x => x.key === selectedKey)?.folder : targetFolder()
+    }), 300);
+  }
+
+  function setPreview(variant, uri) {
+    const img = form.querySelector(`.icon[data-variant="${variant}"] img`);
+    img.hidden = !uri;
+    if (uri) img.src = uri; else img.removeAttribute('src');
+  }
+
+  // ---- host messages ----
+
+  window.addEventListener('message', (event) => {
+    const msg = event.data;
+    switch (msg?.type) {
+      case 'init': {
+        codicons = new Set(msg.codicons);
+        strings = msg.strings ?? {};
+        const list = $('#codicons');
+        for (const name of msg.codicons) {
+          const option = document.createElement('option');
+          option.value = name;
+          list.append(option);
+        }
+        $('#codicon-count').textContent = t('{0} icons', msg.codicons.length);
+        break;
+      }
+      case 'state':
+        onState(msg);
+        break;
+      case 'saved':
+        if (msg.ok) dirty = false;
+        else pendingSelect = undefined;
+        break;
+      case 'discard':
+        if (msg.ok && pendingDiscard) {
+          dirty = false;
+          pendingDiscard();
+        }
+        pendingDiscard = undefined;
+        break;
+      case 'select':
+        select(msg.key);
+        break;
+      case 'secret':
+        addEnvRow(msg.name, `\${secret:${msg.name}}`);
+        changed();
+        break;
+      case 'terminalName':
+        fields.terminalName.value = msg.name;
+        changed();
+        break;
+      case 'iconPreview': {
+        const input = fields[msg.variant === 'light' ? 'iconLight' : 'iconDark'];
+        if (input.value.trim() !== msg.path) {
+          input.value = msg.path; // picked with the file dialog
+          changed();
+        }
+        setPreview(msg.variant, msg.uri);
+        break;
+      }
+    }
+  });
+
+  // Two-way sync: reloads (saves from here or edits of the JSON files) land here
+  function onState(msg) {
+    shortcuts = msg.shortcuts;
+    folders = msg.folders;
+    const folderSelect = fields.folder;
+    const currentFolder = folderSelect.value;
+    folderSelect.replaceChildren(...folders.map(f => new Option(f.name, f.uri)));
+    if (currentFolder) folderSelect.value = currentFolder;
+
+    if (pendingSelect) {
+      const created = shortcuts.find(s => s.config.id === pendingSelect.id && s.folder === pendingSelect.folder)
+        ?? shortcuts.find(s => s.config.id === pendingSelect.id);
+      if (created) {
+        pendingSelect = undefined;
+        dirty = false;
+        selectedKey = created.key;
+        vscode.setState({ selectedKey });
+        fill(created.config, false);
+      }
+    } else if (selectedKey) {
+      const s = shortcuts.find(x => x.key === selectedKey);
+      if (!s) {
+        // deleted or renamed: follow a rename when the id field says so
+        const renamed = shortcuts.find(x => x.config.id === fields.id.value.trim());
+        if (renamed && !form.hidden) {
+          selectedKey = renamed.key;
+          dirty = false;
+          fill(renamed.config, false);
+        } else {
+          selectedKey = undefined;
+          form.hidden = true;
+          dirty = false;
+        }
+        vscode.setState({ selectedKey });
+      } else if (JSON.stringify(s.config) !== JSON.stringify(original)) {
+        if (dirty) $('#stale').hidden = false;
+        else fill(s.config, false);
+      } else {
+        setPreview('light', s.previews.light);
+        setPreview('dark', s.previews.dark);
+      }
+    }
+    renderList();
+  }
+
+  vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { AgentProfileConfig, TerminalShortcutConfig } from './types';
+import { ShellKind, commandLines, quoteShellArgument } from './platform';
+
+const DEFAULT_READY_DELAY_MS = 1500;
+
+// How the common CLI agents start, resume their last session and take a prompt.
+// `${prompt}` is replaced by the quoted prompt, `${path}` by a file path.
+export const AGENT_PROFILES: { [name: string]: AgentProfileConfig } = {
+  claude: { start: 'claude', resume: 'claude --continue', prompt: 'claude ${prompt}', fileReference: '@${path}' },
+  codex: { start: 'codex', resume: 'codex resume --last', prompt: 'codex ${prompt}', fileReference: '@${path}' },
+  gemini: { start: 'gemini', prompt: 'gemini -i ${prompt}', fileReference: '@${path}' },
+  qwen: { start: 'qwen', prompt: 'qwen -i ${prompt}', fileReference: '@${path}' }
+};
+
+export class AgentProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentProfileError';
+  }
+}
+
+// Built-in profile (or one from terminalShortcuts.agentProfiles) with the
+// shortcut's own fields on top
+export function resolveAgentProfile(agent: string | AgentProfileConfig, custom: { [name: string]: AgentProfileConfig } = {}): AgentProfileConfig {
+  const own = typeof agent === 'string' ? { profile: agent } : agent;
+  const name = own.profile;
+  const base = name ? custom[name] ?? AGENT_PROFILES[name] : {};
+  if (!base) throw new AgentProfileError(vscode.l10n.t('Unknown agent profile: "{0}" (profiles: {1})', name ?? '', Object.keys({ ...AGENT_PROFILES, ...custom }).join(', ')));
+  return { ...base, ...own };
+}
+
+export function readyDelay(profile: AgentProfileConfig): number {
+  return profile.readyDelayMs ?? DEFAULT_READY_DELAY_MS;
+}
+
+// Command of an agent shortcut: its own `command` when set, else the profile's
+export function agentStartCommand(s: TerminalShortcutConfig, profile: AgentProfileConfig): string | string[] {
+  return commandLines(s.command).length ? s.command : profile.start || '';
+}
+
+// `shell`: kind of the shell the agent's terminal runs, which quotes the prompt
+export function agentPromptCommand(profile: AgentProfileConfig, prompt: string, shell: ShellKind): string | undefined {
+  return profile.prompt?.replace(/\$\{prompt\}/g, () => quoteShellArgument(prompt, shell));
+}
+
+// "@src/app.ts" (profile template); paths use forward slashes
+export function fileReference(profile: AgentProfileConfig, relativePath: string): string {
+  const p = relativePath.split('\\').join('/');
+  const quoted = /\s/.test(p) ? `"${p}"` : p;
+  return (profile.fileReference ?? '@${path}').replace(/\$\{path\}/g, () => quoted);
+}
+
+// The agent receives the text as one paste, even with newlines: nothing is
+// submitted line by line. `submit` presses Enter afterwards.
+export function pasteToTerminal(terminal: vscode.Terminal, text: string, submit = false) {
+  terminal.sendText(`\x1b[200~${text}\x1b[201~`, false);
+  if (submit) terminal.sendText('\r', false);
+}
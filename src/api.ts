@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { ArgValues } from './args';
+import { RunOutcome } from './execution';
+import { ConfigLayer, LoadedShortcut, TerminalShortcutConfig } from './types';
+import { toShortcutConfig, topLayer } from './layers';
+import { VariableOverrides } from './variables';
+
+// Returned by activate(), for other extensions:
+//   const api = await vscode.extensions.getExtension('julien-dev.terminal-ai-shortcuts')?.activate();
+// Changes are additive; `version` is bumped on a breaking one.
+export interface TerminalShortcutsApi {
+  readonly version: 1;
+  getShortcuts(): ShortcutInfo[];
+  // Rejects when no shortcut has this key or id
+  runShortcut(request: string | RunShortcutRequest): Promise<RunOutcome>;
+  // Shortcuts added under the "provided" layer: configuration overrides them field by field
+  registerShortcutProvider(provider: ShortcutProvider): vscode.Disposable;
+  readonly onDidChangeShortcuts: vscode.Event<void>;
+  readonly onDidStartRun: vscode.Event<RunStartEvent>;
+  readonly onDidFinishRun: vscode.Event<RunFinishEvent>;
+}
+
+export interface ShortcutInfo {
+  key: string; // "folder:id" in multi-root workspaces, else the id
+  id: string;
+  label: string;
+  folder?: vscode.Uri; // owning workspace folder; undefined for shared shortcuts
+  source: ConfigLayer; // highest layer defining it
+  layers: ConfigLayer[]; // lowest first
+  config: TerminalShortcutConfig; // merged fields
+}
+
+// Also accepted by the terminalShortcuts.runShortcut command (tasks.json inputs, keybindings…)
+export interface RunShortcutRequest {
+  id: string; // key or id
+  args?: ArgValues; // skips the args form; missing ones take their default
+  variables?: VariableOverrides; // e.g. { "input:model": "opus", "file": "/tmp/a.ts" }
+  wait?: boolean; // resolve once the command has finished (exit code needs shell integration)
+}
+
+export interface ShortcutProvider {
+  provideShortcuts(): TerminalShortcutConfig[] | Thenable<TerminalShortcutConfig[]>;
+  onDidChangeShortcuts?: vscode.Event<void>;
+}
+
+export interface RunStartEvent {
+  runId: number;
+  key: string; // shortcut key (a sequence's steps report the sequence)
+  label: string;
+  command: string; // resolved, secrets shown as ${secret:NAME}
+}
+
+export interface RunFinishEvent extends RunStartEvent {
+  outcome: RunOutcome;
+  duration: number; // ms
+}
+
+export interface ApiHost {
+  shortcuts(): LoadedShortcut[];
+  run(request: RunShortcutRequest): Promise<RunOutcome | undefined>; // undefined: not found
+}
+
+export class ShortcutNotFoundError extends Error {
+  constructor(id: string) {
+    super(vscode.l10n.t('Shortcut not found: {0}', id));
+    this.name = 'ShortcutNotFoundError';
+  }
+}
+
+// Providers registered through the API; a registration or a change reloads the shortcuts
+export class ShortcutProviderRegistry implements vscode.Disposable {
+  private readonly providers = new Set<ShortcutProvider>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  register(provider: ShortcutProvider): vscode.Disposable {
+    this.providers.add(provider);
+    const subscription = provider.onDidChangeShortcuts?.(() => this._onDidChange.fire());
+    this._onDidChange.fire();
+    return new vscode.Disposable(() => {
+      subscription?.dispose();
+      if (this.providers.delete(provider)) this._onDidChange.fire();
+    });
+  }
+
+  // A failing provider is skipped: it must not hide the other shortcuts
+  async provide(): Promise<TerminalShortcutConfig[]> {
+    const lists = await Promise.all([...this.providers].map(async provider => {
+      try {
+        const provided = await provider.provideShortcuts();
+        return Array.isArray(provided) ? provided : [];
+      } catch {
+        return [];
+      }
+    }));
+    return lists.flat();
+  }
+
+  dispose() {
+    this.providers.clear();
+    this._onDidChange.dispose();
+  }
+}
+
+// Start and finish of every execution in a terminal
+export class RunEvents implements vscode.Disposable {
+  private nextId = 1;
+  private readonly running = new Map<number, { event: RunStartEvent; startedAt: number }>();
+  private readonly _onDidStart = new vscode.EventEmitter<RunStartEvent>();
+  private readonly _onDidFinish = new vscode.EventEmitter<RunFinishEvent>();
+  readonly onDidStart = this._onDidStart.event;
+  readonly onDidFinish = this._onDidFinish.event;
+
+  start(key: string, label: string, command: string): number {
+    const event = { runId: this.nextId++, key, label, command };
+    this.running.set(event.runId, { event, startedAt: Date.now() });
+    this._onDidStart.fire(event);
+    return event.runId;
+  }
+
+  finish(runId: number, outcome: RunOutcome) {
+    const run = this.running.get(runId);
+    if (!run) return;
+    this.running.delete(runId);
+    this._onDidFinish.fire({ ...run.event, outcome, duration: Date.now() - run.startedAt });
+  }
+
+  dispose() {
+    this._onDidStart.dispose();
+    this._onDidFinish.dispose();
+  }
+}
+
+export function createApi(host: ApiHost, providers: ShortcutProviderRegistry, runEvents: RunEvents, onDidChangeShortcuts: vscode.Event<void>): TerminalShortcutsApi {
+  return {
+    version: 1,
+    getShortcuts: () => host.shortcuts().map(describeShortcut),
+    runShortcut: async request => {
+      const normalized = typeof request === 'string' ? { id: request } : request;
+      const outcome = await host.run(normalized);
+      if (!outcome) throw new ShortcutNotFoundError(normalized.id);
+      return outcome;
+    },
+    registerShortcutProvider: provider => providers.register(provider),
+    onDidChangeShortcuts,
+    onDidStartRun: runEvents.onDidStart,
+    onDidFinishRun: runEvents.onDidFinish
+  };
+}
+
+function describeShortcut(s: LoadedShortcut): ShortcutInfo {
+  return {
+    key: s.key,
+    id: s.id,
+    label: s.label,
+    folder: s.folder?.uri,
+    source: topLayer(s.layers)!,
+    layers: [...s.layers],
+    config: JSON.parse(JSON.stringify(toShortcutConfig(s)))
+  };
+}
+
+// Object argument of terminalShortcuts.runShortcut and the query of a vscode:// link
+export function isRunShortcutRequest(value: unknown): value is RunShortcutRequest {
+  return typeof value === 'object' && value !== null && typeof (value as RunShortcutRequest).id === 'string';
+}
+
+// /run?id=build&arg.env=prod&var.input:model=opus
+export function parseRunUri(uri: vscode.Uri): RunShortcutRequest | undefined {
+  if (uri.path.replace(/\/+$/, '') !== '/run') return undefined;
+  const query = new URLSearchParams(uri.query);
+  const id = query.get('id');
+  if (!id) return undefined;
+  const args: ArgValues = {};
+  const variables: VariableOverrides = {};
+  for (const [name, value] of query) {
+    if (name.startsWith('arg.')) args[name.slice(4)] = value;
+    else if (name.startsWith('var.')) variables[name.slice(4)] = value;
+  }
+  return {
+    id,
+    args: Object.keys(args).length ? args : undefined,
+    variables: Object.keys(variables).length ? variables : undefined
+  };
+}
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import { ShortcutArgConfig } from './types';
+
+const ARGS_KEY = 'terminalShortcuts.args';
+const MAX_RECENT = 10;
+const MAX_FILES = 5000;
+
+// Raw answers by argument name; booleans are "true" / "false"
+export type ArgValues = { [name: string]: string };
+
+interface StoredArgs {
+  last: ArgValues;
+  recent: { [name: string]: string[] }; // newest first
+}
+
+// Answers of the previous runs, per shortcut key, kept in workspaceState:
+// they prefill the form and make "Run with Last Arguments" possible
+export class ArgStore {
+  constructor(private readonly state: vscode.Memento) {}
+
+  last(key: string): ArgValues | undefined {
+    return this.all()[key]?.last;
+  }
+
+  recent(key: string, name: string): string[] {
+    return this.all()[key]?.recent[name] ?? [];
+  }
+
+  async remember(key: string, values: ArgValues) {
+    const all = this.all();
+    const recent = { ...all[key]?.recent };
+    for (const [name, value] of Object.entries(values)) {
+      recent[name] = [value, ...(recent[name] ?? []).filter(v => v !== value)].slice(0, MAX_RECENT);
+    }
+    await this.state.update(ARGS_KEY, { ...all, [key]: { last: values, recent } });
+  }
+
+  private all(): { [key: string]: StoredArgs } {
+    return this.state.get<{ [key: string]: StoredArgs }>(ARGS_KEY, {});
+  }
+}
+
+export class ArgValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArgValidationError';
+  }
+}
+
+const patterns = new WeakMap<ShortcutArgConfig, RegExp>();
+
+// Compiled once per argument; throws ArgValidationError when invalid, so that
+// the form is never shown with a pattern that would fail while typing
+function argPattern(arg: ShortcutArgConfig): RegExp | undefined {
+  if (!arg.pattern) return undefined;
+  let regex = patterns.get(arg);
+  if (!regex) {
+    try {
+      regex = new RegExp(arg.pattern);
+    } catch (e) {
+      throw new ArgValidationError(`${arg.name}: ${vscode.l10n.t('invalid pattern: {0}', (e as Error).message)}`);
+    }
+    patterns.set(arg, regex);
+  }
+  return regex;
+}
+
+// The argument's default as a raw answer
+export function defaultArgValue(arg: ShortcutArgConfig): string {
+  if (argType(arg) === 'boolean') return String(arg.default === true || arg.default === 'true');
+  if (arg.default !== undefined) return String(arg.default);
+  return argType(arg) === 'enum' ? enumOptions(arg)[0]?.value ?? '' : '';
+}
+
+// Defaults, overridden by the given answers; throws when one does not fit its argument
+export function completeArgs(args: ShortcutArgConfig[], values: ArgValues = {}): ArgValues {
+  args.forEach(argPattern);
+  const result: ArgValues = {};
+  for (const arg of args) {
+    const value = values[arg.name] ?? defaultArgValue(arg);
+    const problem = checkArgValue(arg, value);
+    if (problem) throw new ArgValidationError(`${arg.name}: ${problem}`);
+    result[arg.name] = value;
+  }
+  return result;
+}
+
+// Text substituted for ${arg:name}
+export function argSubstitutions(args: ShortcutArgConfig[], values: ArgValues): ArgValues {
+  const result: ArgValues = {};
+  for (const arg of args) {
+    const value = values[arg.name] ?? defaultArgValue(arg);
+    result[arg.name] = argType(arg) !== 'boolean' ? value
+      : value === 'true' ? arg.trueValue ?? 'true' : arg.falseValue ?? 'false';
+  }
+  return result;
+}
+
+// Undefined when the value is acceptable, else the reason
+export function checkArgValue(arg: ShortcutArgConfig, value: string): string | undefined {
+  switch (argType(arg)) {
+    case 'boolean':
+      return value === 'true' || value === 'false' ? undefined : vscode.l10n.t('expected true or false');
+    case 'enum':
+      return enumOptions(arg).some(o => o.value === value) ? undefined
+        : vscode.l10n.t('expected one of {0}', enumOptions(arg).map(o => o.value).join(', '));
+  }
+  if (argPattern(arg)?.test(value) === false) return vscode.l10n.t('does not match {0}', `/${arg.pattern}/`);
+  return undefined;
+}
+
+// Asks every argument in turn (Back returns to the previous one), starting from
+// `initial`. Undefined when the form was dismissed; throws ArgValidationError
+// when a pattern is invalid.
+export async function collectArgs(
+  title: string,
+  args: ShortcutArgConfig[],
+  initial: ArgValues,
+  recent: (name: string) => string[],
+  folder?: vscode.WorkspaceFolder
+): Promise<ArgValues | undefined> {
+  args.forEach(argPattern);
+  const values = { ...initial };
+  let index = 0;
+  while (index < args.length) {
+    const arg = args[index];
+    const step: Step = { title, step: index + 1, totalSteps: args.length, canGoBack: index > 0 };
+    const answer = await askArg(arg, values[arg.name] ?? defaultArgValue(arg), step, recent(arg.name), folder);
+    if (answer === BACK) {
+      index--;
+    } else if (answer === undefined) {
+      return undefined;
+    } else {
+      values[arg.name] = answer;
+      index++;
+    }
+  }
+  return values;
+}
+
+const BACK = Symbol('back');
+
+interface Step {
+  title: string;
+  step: number;
+  totalSteps: number;
+  canGoBack: boolean;
+}
+
+interface ValueItem extends vscode.QuickPickItem {
+  value: string;
+}
+
+function argType(arg: ShortcutArgConfig) {
+  return arg.type ?? 'string';
+}
+
+function enumOptions(arg: ShortcutArgConfig): { label: string; value: string }[] {
+  return (arg.options ?? []).map(o => typeof o === 'string' ? { label: o, value: o } : o);
+}
+
+function askArg(arg: ShortcutArgConfig, current: string, step: Step, recent: string[], folder?: vscode.WorkspaceFolder): Promise<string | typeof BACK | undefined> {
+  const prompt = arg.description || arg.name;
+  switch (argType(arg)) {
+    case 'enum':
+      return pick(step, prompt, enumOptions(arg).map(o => ({ label: o.label, description: o.label !== o.value ? o.value : undefined, value: o.value })), current);
+    case 'boolean':
+      return pick(step, prompt, [
+        { label: vscode.l10n.t('Yes'), value: 'true' },
+        { label: vscode.l10n.t('No'), value: 'false' }
+      ], current);
+    case 'file':
+      return pickFile(arg, step, prompt, current, folder);
+    case 'recent':
+      return pickOrType(arg, step, prompt, current, recent);
+    default:
+      return inputText(arg, step, prompt, current);
+  }
+}
+
+// Settles with the accepted value, BACK, or undefined when hidden
+function run<T extends vscode.QuickPick<ValueItem> | vscode.InputBox>(input: T, step: Step, wire: (input: T, done: (value: string | typeof BACK | undefined) => void) => void): Promise<string | typeof BACK | undefined> {
+  return new Promise(resolve => {
+    let settled = false;
+    const done = (value: string | typeof BACK | undefined) => {
+      if (settled) return;
+      settled = true;
+      resolve(value);
+      input.dispose();
+    };
+    input.title = step.title;
+    input.step = step.step;
+    input.totalSteps = step.totalSteps;
+    input.ignoreFocusOut = true;
+    if (step.canGoBack) {
+      input.buttons = [vscode.QuickInputButtons.Back];
+      input.onDidTriggerButton(button => {
+        if (button === vscode.QuickInputButtons.Back) done(BACK);
+      });
+    }
+    input.onDidHide(() => done(undefined));
+    wire(input, done);
+    input.show();
+  });
+}
+
+function pick(step: Step, placeholder: string, items: ValueItem[], current: string) {
+  const quickPick = vscode.window.createQuickPick<ValueItem>();
+  quickPick.placeholder = placeholder;
+  quickPick.items = items;
+  quickPick.activeItems = items.filter(i => i.value === current);
+  return run(quickPick, step, (input, done) => {
+    input.onDidAccept(() => {
+      const selected = input.selectedItems[0] ?? input.activeItems[0];
+      if (selected) done(selected.value);
+    });
+  });
+}
+
+function inputText(arg: ShortcutArgConfig, step: Step, prompt: string, current: string) {
+  const inputBox = vscode.window.createInputBox();
+  inputBox.prompt = prompt;
+  inputBox.value = current;
+  return run(inputBox, step, (input, done) => {
+    input.onDidChangeValue(value => input.validationMessage = checkArgValue(arg, value));
+    input.onDidAccept(() => {
+      input.validationMessage = checkArgValue(arg, input.value);
+      if (!input.validationMessage) done(input.value);
+    });
+  });
+}
+
+// Free text, offering the previous answers (and the default)
+function pickOrType(arg: ShortcutArgConfig, step: Step, placeholder: string, current: string, recent: string[]) {
+  const quickPick = vscode.window.createQuickPick<ValueItem>();
+  const known = [...new Set([current, ...recent, defaultArgValue(arg)].filter(Boolean))];
+  const knownItems = known.map(value => ({ label: value, value }));
+  quickPick.placeholder = placeholder;
+  quickPick.items = knownItems;
+  return run(quickPick, step, (input, done) => {
+    input.onDidChangeValue(value => {
+      input.items = value && !known.includes(value)
+        ? [{ label: value, description: vscode.l10n.t('new value'), value }, ...knownItems]
+        : knownItems;
+    });
+    input.onDidAccept(() => {
+      const value = input.selectedItems[0]?.value ?? input.value;
+      const problem = checkArgValue(arg, value);
+      if (problem) vscode.window.showWarningMessage(`${arg.name}: ${problem}`);
+      else done(value);
+    });
+  });
+}
+
+// Files of the folder matching `glob`, as paths relative to it
+function pickFile(arg: ShortcutArgConfig, step: Step, placeholder: string, current: string, folder?: vscode.WorkspaceFolder) {
+  const quickPick = vscode.window.createQuickPick<ValueItem>();
+  quickPick.placeholder = placeholder;
+  quickPick.matchOnDescription = true;
+  quickPick.busy = true;
+  const glob = arg.glob || '**/*';
+  const pattern = folder ? new vscode.RelativePattern(folder, glob) : glob;
+  return run(quickPick, step, (input, done) => {
+    // A bad glob cancels the form
+    vscode.workspace.findFiles(pattern, undefined, MAX_FILES).then(uris => {
+      const items = uris
+        .map(uri => vscode.workspace.asRelativePath(uri, !folder))
+        .filter(p => argPattern(arg)?.test(p) !== false)
+        .sort()
+        .map(p => ({ label: p, value: p }));
+      input.items = items;
+      input.activeItems = items.filter(i => i.value === current);
+      input.busy = false;
+    }, e => {
+      vscode.window.showErrorMessage(`${arg.name}: ${e instanceof Error ? e.message : String(e)}`);
+      done(undefined);
+    });
+    input.onDidAccept(() => {
+      const selected = input.selectedItems[0];
+      if (selected) done(selected.value);
+    });
+  });
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { renameStepReferences } from './sequence';
+import { FileConfig, PromptTemplateConfig, ShortcutInputConfig, TerminalShortcutConfig } from './types';
+
+// terminal-shortcuts.json is JSONC: comments and trailing commas are accepted
+export const PARSE_OPTIONS: jsonc.ParseOptions = { allowTrailingComma: true, disallowComments: false };
+const FORMATTING: jsonc.FormattingOptions = { insertSpaces: true, tabSize: 2, eol: '\n' };
+
+export function parseFileConfig(text: string): { config: FileConfig | undefined; errors: jsonc.ParseError[] } {
+  const errors: jsonc.ParseError[] = [];
+  const value = jsonc.parse(text, errors, PARSE_OPTIONS);
+  const config = value && typeof value === 'object' && !Array.isArray(value) ? value as FileConfig : undefined;
+  return { config, errors };
+}
+
+export function parseErrorMessage(error: jsonc.ParseError): string {
+  return vscode.l10n.t('Invalid JSON: {0}', jsonc.printParseErrorCode(error.error));
+}
+
+function edit(text: string, path: jsonc.JSONPath, value: unknown, isArrayInsertion = false): string {
+  const edits = jsonc.modify(text, path, value, { formattingOptions: FORMATTING, isArrayInsertion });
+  return jsonc.applyEdits(text, edits);
+}
+
+// Edits keep the user's comments and formatting
+export function upsertShortcutText(text: string, s: TerminalShortcutConfig): string {
+  const { config } = parseFileConfig(text);
+  const commands = Array.isArray(config?.commands) ? config!.commands : undefined;
+  if (!commands) return edit(text.trim() ? text : '{}', ['commands'], [s]);
+  const idx = commands.findIndex(x => x.id === s.id);
+  if (idx >= 0) return edit(text, ['commands', idx], s);
+  return edit(text, ['commands', commands.length], s, true);
+}
+
+// Undefined values remove the field
+export function patchShortcutText(text: string, id: string, patch: Partial<TerminalShortcutConfig>): string {
+  const { config } = parseFileConfig(text);
+  const idx = Array.isArray(config?.commands) ? config!.commands.findIndex(x => x.id === id) : -1;
+  if (idx < 0) return text;
+  for (const [field, value] of Object.entries(patch)) {
+    text = edit(text, ['commands', idx, field], value);
+  }
+  return text;
+}
+
+export function removeShortcutText(text: string, id: string): string {
+  const { config } = parseFileConfig(text);
+  const idx = Array.isArray(config?.commands) ? config!.commands.findIndex(x => x.id === id) : -1;
+  return idx < 0 ? text : edit(text, ['commands', idx], undefined);
+}
+
+// Renames an entry and the sequence steps that reference it
+export function renameShortcutText(text: string, from: string, to: string): string {
+  const { config } = parseFileConfig(text);
+  if (!Array.isArray(config?.commands)) return text;
+  config!.commands.forEach((s, idx) => {
+    if (s.id === from) text = edit(text, ['commands', idx, 'id'], to);
+    const steps = Array.isArray(s.steps) ? renameStepReferences(s.steps, from, to) : undefined;
+    if (steps) text = edit(text, ['commands', idx, 'steps'], steps);
+  });
+  return text;
+}
+
+// Adds an input unless one with the same id exists
+export function addInputText(text: string, input: ShortcutInputConfig): string {
+  const { config } = parseFileConfig(text);
+  const inputs = Array.isArray(config?.inputs) ? config!.inputs : undefined;
+  if (!inputs) return edit(text.trim() ? text : '{}', ['inputs'], [input]);
+  if (inputs.some(x => x.id === input.id)) return text;
+  return edit(text, ['inputs', inputs.length], input, true);
+}
+
+export function upsertPromptText(text: string, prompt: PromptTemplateConfig): string {
+  const { config } = parseFileConfig(text);
+  const prompts = Array.isArray(config?.prompts) ? config!.prompts : undefined;
+  if (!prompts) return edit(text.trim() ? text : '{}', ['prompts'], [prompt]);
+  const idx = prompts.findIndex(x => x.name === prompt.name);
+  if (idx >= 0) return edit(text, ['prompts', idx], prompt);
+  return edit(text, ['prompts', prompts.length], prompt, true);
+}
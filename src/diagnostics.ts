@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { isKnownCodicon } from './codicons';
+import { normalizeChord } from './keybindings';
+import { PARSE_OPTIONS, parseErrorMessage } from './configFile';
+import { currentPlatform } from './platform';
+import { WhenSyntaxError, parseWhen } from './when';
+
+const INPUT_REFERENCE = /\$\{input:([^}]+)\}/g;
+const SECRET_REFERENCE = /\$\{secret:([^}]+)\}/g;
+const ARG_REFERENCE = /\$\{arg:([^}]+)\}/g;
+const LOCATIONS = ['editor', 'panel'];
+const VIEW_COLUMNS = [0, 1, 2, 3];
+const INSTANCE_POLICIES = ['reuse-if-idle', 'always-new', 'restart', 'refuse-if-running'];
+
+export interface ValidationContext {
+  // ids defined anywhere (other files, settings); ids of the validated file are added
+  knownIds: Set<string>;
+  knownInputs: Set<string>;
+  // ids whose merged definition (all layers) has a label and a command or steps
+  completeIds: Set<string>;
+  agentProfiles: Set<string>; // built-in and terminalShortcuts.agentProfiles names
+  secretNames: Set<string>; // stored in this machine's keychain
+  resolveIcon: (p: string, folder: vscode.WorkspaceFolder) => vscode.Uri;
+}
+
+// Reports problems of terminal-shortcuts.json files in the Problems panel
+export class ConfigValidator implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('terminalShortcuts');
+
+  // Returns the number of errors (warnings excluded)
+  async validate(uri: vscode.Uri, text: string, folder: vscode.WorkspaceFolder, ctx: ValidationContext): Promise<number> {
+    const diagnostics = await collectDiagnostics(text, folder, ctx);
+    this.collection.set(uri, diagnostics);
+    return diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+  }
+
+  // Drops diagnostics of files that are no longer loaded
+  retain(uris: vscode.Uri[]) {
+    const keep = new Set(uris.map(u => u.toString()));
+    this.collection.forEach(uri => {
+      if (!keep.has(uri.toString())) this.collection.delete(uri);
+    });
+  }
+
+  dispose() {
+    this.collection.dispose();
+  }
+}
+
+async function collectDiagnostics(text: string, folder: vscode.WorkspaceFolder, ctx: ValidationContext): Promise<vscode.Diagnostic[]> {
+  const lines = lineStarts(text);
+  const rangeOf = (offset: number, length: number) => new vscode.Range(positionAt(lines, offset), positionAt(lines, offset + length));
+  const nodeRange = (node: jsonc.Node) => rangeOf(node.offset, node.length);
+  const result: vscode.Diagnostic[] = [];
+  const report = (range: vscode.Range, message: string, severity = vscode.DiagnosticSeverity.Error) => {
+    const d = new vscode.Diagnostic(range, message, severity);
+    d.source = 'Terminal AI Shortcuts';
+    result.push(d);
+  };
+
+  const errors: jsonc.ParseError[] = [];
+  const root = jsonc.parseTree(text, errors, PARSE_OPTIONS);
+  for (const e of errors) {
+    report(rangeOf(e.offset, Math.max(e.length, 1)), parseErrorMessage(e));
+  }
+  if (!root) return result;
+
+  const inputsNode = jsonc.findNodeAtLocation(root, ['inputs']);
+  const inputs = new Set(ctx.knownInputs);
+  for (const inputNode of inputsNode?.children ?? []) {
+    const id = jsonc.findNodeAtLocation(inputNode, ['id'])?.value;
+    if (typeof id === 'string') inputs.add(id);
+  }
+
+  const commandsNode = jsonc.findNodeAtLocation(root, ['commands']);
+  const entries = (commandsNode?.type === 'array' ? commandsNode.children ?? [] : []).filter(n => n.type === 'object');
+  const ids = new Set(ctx.knownIds);
+  for (const entry of entries) {
+    const id = jsonc.findNodeAtLocation(entry, ['id'])?.value;
+    if (typeof id === 'string') ids.add(id);
+  }
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const child = (...path: jsonc.JSONPath) => jsonc.findNodeAtLocation(entry, path);
+
+    const idNode = child('id');
+    if (idNode && typeof idNode.value === 'string') {
+      if (seen.has(idNode.value)) report(nodeRange(idNode), vscode.l10n.t('Duplicate id: "{0}".', idNode.value));
+      seen.add(idNode.value);
+      const complete = child('label') && (child('command') || child('steps') || child('agent'));
+      if (!complete && child('disabled')?.value !== true && !ctx.completeIds.has(idNode.value)) {
+        report(nodeRange(idNode), vscode.l10n.t('Incomplete shortcut: "label" and "command" (or "steps", "agent") must be defined here or in a lower layer.'));
+      }
+    }
+
+    const codicon = child('codicon');
+    if (codicon && typeof codicon.value === 'string' && codicon.value && !isKnownCodicon(codicon.value)) {
+      report(nodeRange(codicon), vscode.l10n.t('Unknown codicon: "{0}".', codicon.value), vscode.DiagnosticSeverity.Warning);
+    }
+
+    for (const variant of ['light', 'dark']) {
+      const iconNode = child('icon', variant);
+      if (!iconNode || typeof iconNode.value !== 'string') continue;
+      try {
+        await vscode.workspace.fs.stat(ctx.resolveIcon(iconNode.value, folder));
+      } catch {
+        report(nodeRange(iconNode), vscode.l10n.t('Icon file not found: {0}', iconNode.value), vscode.DiagnosticSeverity.Warning);
+      }
+    }
+
+    const keybinding = child('keybinding');
+    if (keybinding && (typeof keybinding.value !== 'string' || !normalizeChord(keybinding.value))) {
+      report(nodeRange(keybinding), vscode.l10n.t('Invalid key combination: {0} (e.g. "ctrl+alt+b").', JSON.stringify(keybinding.value)), vscode.DiagnosticSeverity.Warning);
+    }
+
+    const agent = child('agent');
+    const profile = agent?.type === 'string' ? agent : agent && jsonc.findNodeAtLocation(agent, ['profile']);
+    if (profile && typeof profile.value === 'string' && !ctx.agentProfiles.has(profile.value)) {
+      report(nodeRange(profile), vscode.l10n.t('Unknown agent profile: "{0}" (profiles: {1}).', profile.value, [...ctx.agentProfiles].join(', ')), vscode.DiagnosticSeverity.Warning);
+    }
+
+    const location = child('location');
+    if (location && !LOCATIONS.includes(location.value)) {
+      report(nodeRange(location), vscode.l10n.t('Invalid location value: {0} (expected: "editor" or "panel").', JSON.stringify(location.value)));
+    }
+
+    const instancePolicy = child('instancePolicy');
+    if (instancePolicy && !INSTANCE_POLICIES.includes(instancePolicy.value)) {
+      report(nodeRange(instancePolicy), vscode.l10n.t('Invalid instancePolicy value: {0} (expected: {1}).', JSON.stringify(instancePolicy.value), INSTANCE_POLICIES.map(p => `"${p}"`).join(', ')));
+    }
+
+    const when = child('when');
+    if (typeof when?.value === 'string') {
+      try {
+        parseWhen(when.value);
+      } catch (e) {
+        if (!(e instanceof WhenSyntaxError)) throw e;
+        report(nodeRange(when), vscode.l10n.t('Invalid when clause: {0}.', e.message));
+      }
+    }
+
+    const viewColumn = child('viewColumn');
+    if (viewColumn && !VIEW_COLUMNS.includes(viewColumn.value)) {
+      report(nodeRange(viewColumn), vscode.l10n.t('Invalid viewColumn value: {0} (expected: 0, 1, 2 or 3).', JSON.stringify(viewColumn.value)));
+    }
+
+    for (const ref of collectReferences(child('steps'))) {
+      if (!ids.has(ref.value)) report(nodeRange(ref), vscode.l10n.t('Shortcut not found: "{0}".', ref.value));
+    }
+
+    const dependsOn = child('dependsOn');
+    for (const ref of dependsOn?.type === 'array' ? dependsOn.children ?? [] : dependsOn ? [dependsOn] : []) {
+      if (typeof ref.value === 'string' && !ids.has(ref.value)) report(nodeRange(ref), vscode.l10n.t('Service not found: "{0}".', ref.value));
+    }
+
+    // Profiles of the other systems are unknown here: only this one's block is checked
+    const profiles = vscode.workspace.getConfiguration().get<object>(`terminal.integrated.profiles.${currentPlatform()}`) ?? {};
+    for (const path of [[], [currentPlatform()]]) {
+      const profile = child(...path, 'terminalProfile');
+      if (typeof profile?.value !== 'string') continue;
+      if (child(...path, 'shellPath')) {
+        report(nodeRange(profile), vscode.l10n.t('"terminalProfile" is ignored: "shellPath" is set.'), vscode.DiagnosticSeverity.Warning);
+      } else if (!Object.keys(profiles).includes(profile.value)) {
+        report(nodeRange(profile), vscode.l10n.t('Unknown terminal profile: "{0}" ({1}).', profile.value, `terminal.integrated.profiles.${currentPlatform()}`), vscode.DiagnosticSeverity.Warning);
+      }
+    }
+
+    for (const name of ['readyPattern', 'errorPattern']) {
+      const pattern = child(name);
+      if (typeof pattern?.value !== 'string') continue;
+      try {
+        new RegExp(pattern.value);
+      } catch (e) {
+        report(nodeRange(pattern), vscode.l10n.t('Invalid regular expression: {0}', (e as Error).message));
+      }
+    }
+
+    // Args may come from a lower layer: references are only checked against args declared here
+    const argsNode = child('args');
+    const argNames = new Set<string>();
+    for (const arg of argsNode?.type === 'array' ? argsNode.children ?? [] : []) {
+      const name = jsonc.findNodeAtLocation(arg, ['name']);
+      if (typeof name?.value !== 'string') continue;
+      if (argNames.has(name.value)) report(nodeRange(name), vscode.l10n.t('Duplicate argument: "{0}".', name.value));
+      argNames.add(name.value);
+      const type = jsonc.findNodeAtLocation(arg, ['type'])?.value;
+      if (type === 'enum' && !jsonc.findNodeAtLocation(arg, ['options'])?.children?.length) {
+        report(nodeRange(name), vscode.l10n.t('Argument "{0}" of type enum has no options.', name.value));
+      }
+      const pattern = jsonc.findNodeAtLocation(arg, ['pattern']);
+      if (typeof pattern?.value !== 'string') continue;
+      try {
+        new RegExp(pattern.value);
+      } catch (e) {
+        report(nodeRange(pattern), vscode.l10n.t('Invalid regular expression: {0}', (e as Error).message));
+      }
+    }
+
+    for (const node of stringNodes(entry)) {
+      if (argsNode) {
+        for (const m of (node.value as string).matchAll(ARG_REFERENCE)) {
+          if (!argNames.has(m[1])) {
+            report(nodeRange(node), vscode.l10n.t('Undeclared argument: {0} (add it to "args").', `\${arg:${m[1]}}`), vscode.DiagnosticSeverity.Warning);
+          }
+        }
+      }
+      for (const m of (node.value as string).matchAll(INPUT_REFERENCE)) {
+        if (!inputs.has(m[1])) {
+          report(nodeRange(node), vscode.l10n.t('Undeclared input: {0} (add it to "inputs").', `\${input:${m[1]}}`), vscode.DiagnosticSeverity.Warning);
+        }
+      }
+      for (const m of (node.value as string).matchAll(SECRET_REFERENCE)) {
+        if (!ctx.secretNames.has(m[1])) {
+          report(nodeRange(node), vscode.l10n.t('Secret not set on this machine: {0} (Terminal AI Shortcuts: Set Secret…).', `\${secret:${m[1]}}`), vscode.DiagnosticSeverity.Warning);
+        }
+      }
+    }
+  }
+
+  const promptsNode = jsonc.findNodeAtLocation(root, ['prompts']);
+  for (const entry of (promptsNode?.type === 'array' ? promptsNode.children ?? [] : []).filter(n => n.type === 'object')) {
+    const name = jsonc.findNodeAtLocation(entry, ['name']);
+    const body = jsonc.findNodeAtLocation(entry, ['body']);
+    if (typeof name?.value !== 'string' || typeof body?.value !== 'string') {
+      report(nodeRange(name ?? entry), vscode.l10n.t('Incomplete prompt: "name" and "body" are required.'));
+    }
+    const target = jsonc.findNodeAtLocation(entry, ['target']);
+    if (typeof target?.value === 'string' && !ids.has(target.value)) {
+      report(nodeRange(target), vscode.l10n.t('Target shortcut not found: "{0}".', target.value), vscode.DiagnosticSeverity.Warning);
+    }
+  }
+  return result;
+}
+
+// String nodes that name another shortcut inside `steps` (plain strings and `ref`)
+function collectReferences(stepsNode: jsonc.Node | undefined): jsonc.Node[] {
+  const refs: jsonc.Node[] = [];
+  for (const step of stepsNode?.children ?? []) {
+    if (step.type === 'string') {
+      refs.push(step);
+    } else if (step.type === 'object') {
+      const ref = jsonc.findNodeAtLocation(step, ['ref']);
+      if (ref?.type === 'string') refs.push(ref);
+      refs.push(...collectReferences(jsonc.findNodeAtLocation(step, ['parallel'])));
+    }
+  }
+  return refs;
+}
+
+function stringNodes(node: jsonc.Node): jsonc.Node[] {
+  if (node.type === 'string') return [node];
+  if (node.type === 'property') return node.children?.[1] ? stringNodes(node.children[1]) : [];
+  return (node.children ?? []).flatMap(stringNodes);
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionAt(starts: number[], offset: number): vscode.Position {
+  let line = 0;
+  while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+  return new vscode.Position(line, offset - starts[line]);
+}
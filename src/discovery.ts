@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { IMPORT_SOURCES, ImportSource, importFromFolder } from './importers';
+import { TerminalShortcutConfig } from './types';
+
+// Tree group of the detected shortcuts; each source gets a subgroup ("Detected/Scripts")
+export const DETECTED_GROUP = vscode.l10n.t('Detected');
+
+// Files whose changes refresh the detected shortcuts
+export const DISCOVERY_FILES = IMPORT_SOURCES.flatMap(source => source.files);
+
+export function discoveryEnabled(folder: vscode.WorkspaceFolder): boolean {
+  return vscode.workspace.getConfiguration('terminalShortcuts', folder.uri).get<boolean>('discovery.enabled') ?? false;
+}
+
+// Shortcuts derived live from the folder's package.json, tasks.json, Makefile…
+// filtered by the include/exclude globs (matched against the generated id)
+export async function discoverShortcuts(folder: vscode.WorkspaceFolder): Promise<TerminalShortcutConfig[]> {
+  if (!discoveryEnabled(folder)) return [];
+  const cfg = vscode.workspace.getConfiguration('terminalShortcuts', folder.uri);
+  const enabled = cfg.get<string[]>('discovery.sources') ?? [];
+  const include = (cfg.get<string[]>('discovery.include') ?? []).map(globToRegExp);
+  const exclude = (cfg.get<string[]>('discovery.exclude') ?? []).map(globToRegExp);
+  const result: TerminalShortcutConfig[] = [];
+  for (const source of IMPORT_SOURCES.filter(s => enabled.includes(s.id))) {
+    for (const config of await importFromFolder(source, folder)) {
+      if (include.length && !include.some(r => r.test(config.id))) continue;
+      if (exclude.some(r => r.test(config.id))) continue;
+      result.push({ ...config, group: detectedGroup(source, config) });
+    }
+  }
+  return result;
+}
+
+function detectedGroup(source: ImportSource, config: TerminalShortcutConfig): string {
+  return `${DETECTED_GROUP}/${config.group ?? source.label}`;
+}
+
+// Entry written when a detected shortcut is pinned: back to the importer's group
+export function promoteDetected(config: TerminalShortcutConfig): TerminalShortcutConfig {
+  const prefix = `${DETECTED_GROUP}/`;
+  return config.group?.startsWith(prefix) ? { ...config, group: config.group.slice(prefix.length) } : config;
+}
+
+// "npm-test*" style globs: `*` any characters, `?` one character
+export function globToRegExp(glob: string): RegExp {
+  const source = glob.split('').map(c => c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('');
+  return new RegExp(`^${source}$`, 'i');
+}
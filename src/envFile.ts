@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { EnvMap } from './types';
+import { VariableResolutionError, VariableResolver } from './variables';
+
+const ASSIGNMENT = /^(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*)$/;
+const REFERENCE = /\$\{([^}]+)\}/g;
+const ENV_NAME = /^[A-Za-z_]\w*$/;
+
+// Reads dotenv files in order (a later file wins). Relative paths start at the
+// workspace folder. In values, ${NAME} is a variable defined above (or in the
+// process environment); other ${...} are VS Code variables, ${secret:NAME}
+// included. Single-quoted values are taken as is.
+export async function readEnvFiles(files: string[], resolver: VariableResolver): Promise<EnvMap | undefined> {
+  const env: EnvMap = {};
+  for (const file of files) {
+    const resolved = await resolver.resolve(file);
+    if (resolved === undefined) return undefined;
+    const fullPath = path.isAbsolute(resolved) ? resolved : path.join((await resolver.resolve('${workspaceFolder}'))!, resolved);
+    let text: string;
+    try {
+      text = await fs.readFile(fullPath, 'utf8');
+    } catch {
+      throw new VariableResolutionError(vscode.l10n.t('envFile not found: {0}', fullPath));
+    }
+    for (const [index, line] of text.split(/\r?\n/).entries()) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const m = ASSIGNMENT.exec(trimmed);
+      if (!m) throw new VariableResolutionError(vscode.l10n.t('{0}:{1}: invalid line (expected: NAME=value)', file, index + 1));
+      const value = parseValue(m[2]);
+      if (value.literal) {
+        env[m[1]] = value.text;
+        continue;
+      }
+      const expanded = await expand(value.text, env, resolver);
+      if (expanded === undefined) return undefined;
+      env[m[1]] = expanded;
+    }
+  }
+  return env;
+}
+
+function parseValue(raw: string): { text: string; literal: boolean } {
+  const quote = raw[0];
+  if (quote === '\'') {
+    const end = raw.indexOf(quote, 1);
+    return { text: raw.slice(1, end < 0 ? undefined : end), literal: true };
+  }
+  if (quote === '"') {
+    // Ends at the first quote not escaped by a backslash
+    const inner = /^"((?:\\.|[^"\\])*)/.exec(raw)![1];
+    return { text: inner.replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1'), literal: false };
+  }
+  // Unquoted: a comment starts at " #"
+  return { text: raw.replace(/\s+#.*$/, '').trim(), literal: false };
+}
+
+async function expand(text: string, env: EnvMap, resolver: VariableResolver): Promise<string | undefined> {
+  let result = '';
+  let last = 0;
+  for (const m of text.matchAll(REFERENCE)) {
+    const name = m[1];
+    const value = ENV_NAME.test(name) && (name in env || name in process.env)
+      ? env[name] ?? process.env[name]
+      : await resolver.resolve(m[0]);
+    if (value === undefined) return undefined;
+    result += text.slice(last, m.index) + value;
+    last = m.index! + m[0].length;
+  }
+  return result + text.slice(last);
+}
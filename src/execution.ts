@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+const SHELL_INTEGRATION_TIMEOUT_MS = 5000;
+const END_EVENT_GRACE_MS = 2000; // after the output stream has ended
+
+export type RunOutcome =
+  | { status: 'cancelled' } // nothing was sent (input cancelled, unresolved variable…), or the wait was cancelled
+  | { status: 'sent' } // sent without shell integration: exit code unknown
+  | { status: 'exited'; exitCode: number | undefined };
+
+// Shell integration activates asynchronously once the shell has started
+export function waitForShellIntegration(terminal: vscode.Terminal, timeoutMs = SHELL_INTEGRATION_TIMEOUT_MS): Promise<vscode.TerminalShellIntegration | undefined> {
+  if (terminal.shellIntegration) return Promise.resolve(terminal.shellIntegration);
+  if (timeoutMs <= 0) return Promise.resolve(undefined);
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      sub.dispose();
+      resolve(undefined);
+    }, timeoutMs);
+    const sub = vscode.window.onDidChangeTerminalShellIntegration(e => {
+      if (e.terminal !== terminal) return;
+      clearTimeout(timer);
+      sub.dispose();
+      resolve(e.shellIntegration);
+    });
+  });
+}
+
+export interface ExecuteOptions {
+  // How long to wait for shell integration; 0 for terminals that were already running
+  shellIntegrationTimeoutMs?: number;
+  onOutput?: (data: string) => void;
+  token?: vscode.CancellationToken; // stops waiting (status 'cancelled'); the command keeps running
+}
+
+// Runs the command and resolves with its exit code once it finishes. Falls back
+// to sendText (status 'sent') when the terminal has no shell integration.
+export async function executeAndWait(terminal: vscode.Terminal, command: string, options: ExecuteOptions = {}): Promise<RunOutcome> {
+  const integration = await waitForShellIntegration(terminal, options.shellIntegrationTimeoutMs);
+  if (options.token?.isCancellationRequested) return { status: 'cancelled' };
+  if (!integration) {
+    terminal.sendText(command, true);
+    return { status: 'sent' };
+  }
+  return new Promise(resolve => {
+    let settled = false;
+    let grace: NodeJS.Timeout | undefined;
+    const done = (outcome: RunOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(grace);
+      endSub.dispose();
+      closeSub.dispose();
+      cancelSub?.dispose();
+      resolve(outcome);
+    };
+    const endSub = vscode.window.onDidEndTerminalShellExecution(e => {
+      if (e.execution === execution) done({ status: 'exited', exitCode: e.exitCode });
+    });
+    const closeSub = vscode.window.onDidCloseTerminal(t => {
+      if (t === terminal) done({ status: 'exited', exitCode: t.exitStatus?.code ?? 1 });
+    });
+    const cancelSub = options.token?.onCancellationRequested(() => done({ status: 'cancelled' }));
+    const execution = integration.executeCommand(command);
+    // The output ends with the command: if the end event never comes (shell
+    // integration lost mid-run), the exit code is unknown
+    readOutput(execution, options.onOutput).then(() => {
+      if (!settled) grace = setTimeout(() => done({ status: 'exited', exitCode: undefined }), END_EVENT_GRACE_MS);
+    });
+  });
+}
+
+async function readOutput(execution: vscode.TerminalShellExecution, onOutput?: (data: string) => void) {
+  try {
+    for await (const data of execution.read()) {
+      onOutput?.(data);
+    }
+  } catch {
+    // output is best effort
+  }
+}
+
+// Unknown exit codes (undefined) are not treated as failures
+export function isFailure(outcome: RunOutcome): boolean {
+  return outcome.status === 'exited' && outcome.exitCode !== undefined && outcome.exitCode !== 0;
+}
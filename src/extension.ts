@@ -1,173 +1,477 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { TextDecoder, TextEncoder } from 'util';
-
-type EnvMap = { [key: string]: string };
-
-interface ShortcutIconConfig {
-  light?: string;
-  dark?: string;
-}
-
-interface TerminalShortcutConfig {
-  id: string;
-  label: string;
-  command: string;
-  terminalName?: string;
-  cwd?: string;
-  env?: EnvMap;
-  reuse?: boolean;
-  focus?: boolean;
-  statusBar?: boolean;
-  codicon?: string; // used in status bar
-  statusBarText?: string;
-  icon?: ShortcutIconConfig; // used in Explorer view
-  location?: 'editor' | 'panel';
-  viewColumn?: number; // for editor location
-}
-
-interface FileConfig {
-  commands?: TerminalShortcutConfig[];
-}
-
-class ShortcutTreeItem extends vscode.TreeItem {
-  public readonly shortcut: TerminalShortcutConfig;
-  constructor(shortcut: TerminalShortcutConfig, icon: { light?: vscode.Uri; dark?: vscode.Uri } | vscode.ThemeIcon | undefined) {
-    super(shortcut.label, vscode.TreeItemCollapsibleState.None);
-    this.shortcut = shortcut;
-    this.tooltip = `${shortcut.label} — ${shortcut.command}`;
-    this.description = shortcut.terminalName ?? '';
-    if (icon) {
-      this.iconPath = icon as any;
-    }
-    this.command = {
-      command: 'terminalShortcuts.runShortcut',
-      title: 'Run Terminal Shortcut',
-      arguments: [shortcut.id]
-    };
-    this.contextValue = 'terminalShortcutItem';
-  }
-}
-
-class ShortcutTreeProvider implements vscode.TreeDataProvider<ShortcutTreeItem> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
-  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
-
-  constructor(private readonly getShortcuts: () => TerminalShortcutConfig[], private readonly toIcon: (s: TerminalShortcutConfig) => { light?: vscode.Uri; dark?: vscode.Uri } | vscode.ThemeIcon | undefined) {}
-
-  refresh() {
-    this._onDidChangeTreeData.fire();
-  }
-
-  getTreeItem(element: ShortcutTreeItem): vscode.TreeItem {
-    return element;
-  }
-
-  getChildren(): Thenable<ShortcutTreeItem[]> {
-    const items = this.getShortcuts().map(s => new ShortcutTreeItem(s, this.toIcon(s)));
-    return Promise.resolve(items);
-  }
-}
+import { LOCKED_NOTICE, ShortcutDragAndDropController, ShortcutIcon, ShortcutPatch, ShortcutTreeItem, ShortcutTreeNode, ShortcutTreeProvider, TREE_VIEW_IDS, normalizeGroup, placeShortcuts } from './tree';
+import { addInputText, parseFileConfig, patchShortcutText, removeShortcutText, renameShortcutText, upsertPromptText, upsertShortcutText } from './configFile';
+import { ManagerHost, SaveTarget, ShortcutManagerPanel } from './manager';
+import { IMPORT_SOURCES, importFromFolder } from './importers';
+import { DISCOVERY_FILES, discoverShortcuts, discoveryEnabled, promoteDetected } from './discovery';
+import { ConfigValidator } from './diagnostics';
+import { KeybindingManager, KeybindingsFileError, RUN_COMMAND, normalizeChord } from './keybindings';
+import { ApprovalStore, WorkspaceSource, hashCommands, isWorkspaceLayer, matchPattern } from './safety';
+import { HistoryEntry, HistoryTreeItem, HistoryTreeProvider, RunHistory } from './history';
+import { PromptTreeItem, PromptTreeProvider, resolvePromptBody } from './prompts';
+import { TerminalRegistry } from './terminals';
+import { ServiceRun, ServiceStore, serviceStateIcon, summarizeServiceState } from './services';
+import { LAYER_LABELS, LayerSource, MergedShortcut, isDetectedOnly, layerRank, mergeLayers, settingsTarget, toShortcutConfig, topLayer } from './layers';
+import { AgentProfileConfig, ConfigLayer, EnvMap, FileConfig, InstancePolicy, LoadedGroup, LoadedInput, LoadedPrompt, LoadedShortcut, PromptTemplateConfig, ShortcutGroupConfig, ShortcutInputConfig, TerminalShortcutConfig } from './types';
+import { VariableOverrides, VariableResolutionError, VariableResolver, resolveShortcutVariables } from './variables';
+import { RunOutcome, executeAndWait, isFailure, waitForShellIntegration } from './execution';
+import { ShellKind, ShellOptions, TerminalProfileError, commandLines, commandText, forPlatform, shellKind, shellOptions } from './platform';
+import { AGENT_PROFILES, AgentProfileError, agentPromptCommand, agentStartCommand, fileReference, pasteToTerminal, readyDelay, resolveAgentProfile } from './agents';
+import { SequenceError, checkSequence, commandSummary, renameStepReferences, runSteps } from './sequence';
+import { RunStateStore, describeRunState, runStateIcon, stripAnsi } from './runState';
+import { SecretNotFoundError, SecretVault, isValidSecretName } from './secrets';
+import { readEnvFiles } from './envFile';
+import { WhenContext, WhenExpression, existsPaths, parseWhen } from './when';
+import { ArgStore, ArgValidationError, ArgValues, argSubstitutions, collectArgs, completeArgs } from './args';
+import { UsageStore } from './usage';
+import { RunEvents, RunShortcutRequest, ShortcutProviderRegistry, TerminalShortcutsApi, createApi, isRunShortcutRequest, parseRunUri } from './api';
 
 let statusBarItems = new Map<string, vscode.StatusBarItem>();
-let shortcuts: TerminalShortcutConfig[] = [];
+let shortcuts: LoadedShortcut[] = [];
+let shortcutInputs: LoadedInput[] = [];
+let shortcutGroups: LoadedGroup[] = [];
+let shortcutPrompts: LoadedPrompt[] = [];
+const runStates = new RunStateStore();
+const runEvents = new RunEvents();
+const shortcutProviders = new ShortcutProviderRegistry(); // other extensions, through the API
+const shortcutsChanged = new vscode.EventEmitter<void>();
+let runHistory: RunHistory | undefined;
+let terminals: TerminalRegistry | undefined;
+let services: ServiceStore | undefined;
+let secretVault: SecretVault | undefined;
+let argStore: ArgStore | undefined;
+let usage: UsageStore | undefined;
+let whenContext: WhenContext | undefined;
+const whenClauses = new Map<string, WhenExpression | null>(); // compiled, null when invalid
+let shownKeys = ''; // shortcuts whose `when` holds, to refresh only on a change
+let serviceStatusItem: vscode.StatusBarItem | undefined;
+let compactStatusItem: vscode.StatusBarItem | undefined; // statusBar.compact: one item for all shortcuts
+let compactStatusKeys: string[] = []; // the shortcuts it lists
+let overflowStatusItem: vscode.StatusBarItem | undefined; // "+N" beyond statusBar.maxVisible
+const autoStarted = new Set<string>(); // autoStart services already started this session
+const pendingWaits = new Map<string, Set<vscode.CancellationTokenSource>>(); // executions awaited, by shortcut key
 let treeProvider: ShortcutTreeProvider | undefined;
+let promptTreeProvider: PromptTreeProvider | undefined;
 let fileWatchers: vscode.FileSystemWatcher[] = [];
+let keybindings: KeybindingManager | undefined;
+let approvals: ApprovalStore | undefined;
+let workspaceSources = new Map<string, WorkspaceSource>();
+let lastAgentKey: string | undefined; // agent picked last, offered first
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): TerminalShortcutsApi {
   const disposables: vscode.Disposable[] = [];
+  const treeViews: vscode.TreeView<ShortcutTreeNode>[] = [];
+  const validator = new ConfigValidator();
+  let configFiles: ConfigFile[] = [];
+
+  const validate = (file: ConfigFile, text: string) => validator.validate(file.uri, text, file.folder, {
+    knownIds: new Set(shortcuts.map(s => s.id)),
+    knownInputs: new Set(shortcutInputs.map(i => i.id)),
+    completeIds: new Set(shortcuts.filter(s => s.origins.label && (s.origins.command || s.origins.steps || s.origins.agent)).map(s => s.id)),
+    agentProfiles: new Set([...Object.keys(AGENT_PROFILES), ...Object.keys(customAgentProfiles())]),
+    secretNames: new Set(secretVault?.names()),
+    resolveIcon: (p, folder) => resolveIconUri(context, p, folder)
+  });
+
+  // Every write reloads, which refreshes the manager (and the tree)
+  const afterWrite = async (ok: boolean) => {
+    if (ok) await load();
+    return ok;
+  };
+  const managerHost: ManagerHost = {
+    shortcuts: () => shortcuts,
+    resolveIcon: (p, folder) => resolveIconUri(context, p, folder),
+    create: async (config, target, folder) => {
+      if (target !== 'user') return afterWrite(await upsertWorkspaceShortcut(config, folder, target));
+      const current = vscode.workspace.getConfiguration('terminalShortcuts').inspect<TerminalShortcutConfig[]>('commands')?.globalValue ?? [];
+      if (current.some(x => x.id === config.id)) {
+        vscode.window.showErrorMessage(vscode.l10n.t('A global shortcut with id "{0}" already exists.', config.id));
+        return false;
+      }
+      return afterWrite(await upsertGlobalShortcut(config));
+    },
+    update: async (s, config) => afterWrite(await updateShortcut(s, config)),
+    remove: async s => afterWrite(await deleteShortcut(s)),
+    move: async (s, before) => afterWrite(await moveShortcut(s, before)),
+    duplicateGlobal: async config => afterWrite(await duplicateGlobal(config)),
+    showOrigin,
+    assignKeybinding: async s => { await afterWrite(await assignKeybinding(s)); },
+    setSecret: () => setSecret()
+  };
 
   const load = async () => {
-    shortcuts = await loadShortcuts(context);
+    const loaded = await loadShortcuts(context);
+    shortcuts = loaded.shortcuts;
+    shortcutInputs = loaded.inputs;
+    shortcutGroups = loaded.groups;
+    shortcutPrompts = loaded.prompts;
+    configFiles = loaded.files;
+    workspaceSources = loaded.sources;
+    await whenContext?.track(shortcuts.flatMap(s => s.when ? existsPaths(s.when) : []));
+    shownKeys = shownKeysOf();
     rebuildStatusBar(context);
     treeProvider?.refresh();
+    promptTreeProvider?.refresh();
+    for (const file of configFiles) {
+      const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === file.uri.toString());
+      await validate(file, doc ? doc.getText() : file.text);
+    }
+    validator.retain(configFiles.map(f => f.uri));
+    ShortcutManagerPanel.current?.refresh();
+    // After the terminals kept across a reload are known: those services still run
+    restoring.then(autoStartServices).catch(reportError);
+    const broken = configFiles.filter(f => !f.config);
+    const message = broken.length
+      ? vscode.l10n.t('Errors in {0}: shortcuts of the file ignored (see Problems).', broken.map(f => vscode.workspace.asRelativePath(f.uri)).join(', '))
+      : undefined;
+    treeViews.forEach(v => v.message = message);
+    shortcutsChanged.fire();
+  };
+  // Reloads started by an event: nothing awaits them
+  const reload = () => {
+    load().catch(reportError);
   };
 
+  whenContext = new WhenContext();
+  disposables.push(whenContext, whenContext.onDidChange(updateVisibility));
   treeProvider = new ShortcutTreeProvider(
+    context,
+    () => shortcuts.filter(isShown),
+    () => shortcutGroups,
+    (s) => resolveTreeItemIcon(context, s),
+    (key) => runStates.get(key),
+    (key) => services?.get(key),
+    (s) => unapprovedSources(s).length > 0,
+    (text) => secretVault?.redact(text) ?? text
+  );
+  runHistory = new RunHistory(context.workspaceState);
+  argStore = new ArgStore(context.workspaceState);
+  usage = new UsageStore(context.globalState, context.workspaceState);
+  secretVault = new SecretVault(context.secrets, context.globalState);
+  disposables.push(secretVault, secretVault.onDidChange(reload));
+  secretVault.load().then(() => treeProvider?.refresh());
+  terminals = new TerminalRegistry(context.workspaceState);
+  const restoring = terminals.restore();
+  services = new ServiceStore();
+  disposables.push(services, services.onDidChange(key => {
+    treeProvider?.refresh();
+    renderServiceStatusItem();
+    refreshStatusBarItem(key);
+  }));
+  disposables.push(terminals, terminals.onDidChange(key => refreshStatusBarItem(key)));
+  keybindings = new KeybindingManager(context);
+  approvals = new ApprovalStore(context.globalState);
+  const historyView = vscode.window.createTreeView('terminalShortcutsHistory', {
+    treeDataProvider: new HistoryTreeProvider(runHistory)
+  });
+  disposables.push(runHistory, historyView);
+  promptTreeProvider = new PromptTreeProvider(() => shortcutPrompts);
+  disposables.push(vscode.window.createTreeView('terminalShortcutsPrompts', { treeDataProvider: promptTreeProvider }));
+
+  const dragAndDrop = new ShortcutDragAndDropController(
     () => shortcuts,
-    (s) => resolveTreeItemIcon(context, s)
+    async (patches) => {
+      if (await applyShortcutPatches(patches, vscode.l10n.t('Could not save the new order of the shortcuts.'))) await load();
+    }
   );
-  vscode.window.registerTreeDataProvider('terminalShortcutsView', treeProvider);
-  vscode.window.registerTreeDataProvider('terminalShortcutsViewExplorer', treeProvider);
+  for (const viewId of TREE_VIEW_IDS) {
+    const view = vscode.window.createTreeView<ShortcutTreeNode>(viewId, {
+      treeDataProvider: treeProvider,
+      dragAndDropController: dragAndDrop,
+      canSelectMany: true
+    });
+    treeViews.push(view);
+    disposables.push(view, ...treeProvider.trackExpansion(view));
+  }
 
   disposables.push(
+    runStates,
+    runStates.onDidChange(key => {
+      treeProvider?.refresh();
+      refreshStatusBarItem(key);
+    }),
+    // Status bar: the compact item and the overflow item
+    vscode.commands.registerCommand('terminalShortcuts.showStatusBarMenu', async (keys?: string[]) => {
+      await ensureLoaded(load);
+      const s = await pickStatusBarShortcut(keys);
+      if (s) await runShortcut(s);
+    }),
     vscode.commands.registerCommand('terminalShortcuts.run', async () => {
       await ensureLoaded(load);
       if (!shortcuts.length) {
-        vscode.window.showInformationMessage('Aucun raccourci défini. Ouvrir la configuration ?', 'Ouvrir').then(sel => {
+        vscode.window.showInformationMessage(vscode.l10n.t('No shortcut defined. Open the configuration?'), vscode.l10n.t('Open')).then(sel => {
           if (sel) vscode.commands.executeCommand('terminalShortcuts.openConfig');
         });
         return;
       }
-      const pick = await vscode.window.showQuickPick(
-        shortcuts.map(s => ({
-          label: s.label,
-          description: s.terminalName || '',
-          detail: s.command,
-          s
-        })),
-        { placeHolder: 'Choisissez un raccourci à exécuter' }
-      );
-      if (!pick) return;
-      await runShortcut(pick.s);
+      const s = await pickShortcut(context, picked => ShortcutManagerPanel.show(context, managerHost, picked.key));
+      if (s) await runShortcut(s);
     }),
-    vscode.commands.registerCommand('terminalShortcuts.runShortcut', async (id?: string) => {
+    vscode.commands.registerCommand('terminalShortcuts.runLast', async () => {
       await ensureLoaded(load);
-      if (!id) return;
-      const s = shortcuts.find(x => x.id === id);
+      const s = usage!.recent(shortcuts)[0];
       if (s) {
-        await runShortcut(s);
+        await runShortcut(s, { args: argStore!.last(s.key) });
       } else {
-        vscode.window.showErrorMessage(`Raccourci introuvable: ${id}`);
+        vscode.window.showInformationMessage(vscode.l10n.t('No shortcut has been run yet.'));
       }
     }),
+    // A key or id, or a RunShortcutRequest (tasks.json inputs, other extensions);
+    // the outcome is returned to the caller
+    vscode.commands.registerCommand('terminalShortcuts.runShortcut', async (arg?: string | RunShortcutRequest) => {
+      await ensureLoaded(load);
+      const request = typeof arg === 'string' ? { id: arg } : isRunShortcutRequest(arg) ? arg : undefined;
+      if (!request) return undefined;
+      const outcome = await runRequest(request);
+      if (!outcome) vscode.window.showErrorMessage(vscode.l10n.t('Shortcut not found: {0}', request.id));
+      return outcome;
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.runWithLastArgs', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (s) await runShortcut(s, { args: argStore!.last(s.key) });
+    }),
     vscode.commands.registerCommand('terminalShortcuts.refresh', async () => {
       await load();
-      vscode.window.setStatusBarMessage('Terminal Shortcuts rechargé.', 1500);
+      vscode.window.setStatusBarMessage(vscode.l10n.t('Terminal Shortcuts reloaded.'), 1500);
     }),
     vscode.commands.registerCommand('terminalShortcuts.openConfig', async () => {
       await openOrCreateConfig();
     }),
+    vscode.commands.registerCommand('terminalShortcuts.openLocalConfig', async () => {
+      await openOrCreateLocalConfig();
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.showOrigin', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (!s) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Select a shortcut in the view to show its origin.'));
+        return;
+      }
+      await showOrigin(s);
+    }),
     vscode.commands.registerCommand('terminalShortcuts.addGlobal', async () => {
       await ensureLoaded(load);
       const created = await promptAndCreateGlobalShortcut();
       if (created) {
         await load();
-        vscode.window.showInformationMessage(`Raccourci global ajouté: ${created.label}`);
+        vscode.window.showInformationMessage(vscode.l10n.t('Global shortcut added: {0}', created.label));
       }
     }),
-    vscode.commands.registerCommand('terminalShortcuts.pinToGlobal', async (id?: string) => {
+    vscode.commands.registerCommand('terminalShortcuts.pinToGlobal', async (arg?: string | ShortcutTreeItem) => {
       await ensureLoaded(load);
-      const s = id ? shortcuts.find(x => x.id === id) : undefined;
+      const s = arg ? findShortcut(arg) : undefined;
       if (!s) {
-        vscode.window.showWarningMessage('Sélectionnez un raccourci dans la vue pour l’épingler.');
+        vscode.window.showWarningMessage(vscode.l10n.t('Select a shortcut in the view to pin it.'));
         return;
       }
-      const updated = await upsertGlobalShortcut(s);
+      const updated = await upsertGlobalShortcut(promoteDetected(s));
       if (updated) {
         await load();
-        vscode.window.showInformationMessage(`Raccourci épinglé globalement: ${s.label}`);
+        vscode.window.showInformationMessage(vscode.l10n.t('Shortcut pinned globally: {0}', s.label));
+      }
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.pinDetected', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (!s || !isDetectedOnly(s)) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Select a detected shortcut in the view to pin it.'));
+        return;
+      }
+      if (await afterWrite(await pinDetected(s))) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Shortcut pinned in {0}: {1}', s.folder?.name ?? vscode.l10n.t('the project'), s.label));
+      }
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.resumeAgent', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const agent = await pickAgent(arg);
+      if (agent) await resumeAgent(agent);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.askAgent', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const agent = await pickAgent(arg);
+      if (!agent) return;
+      const prompt = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Ask {0}', agent.label), ignoreFocusOut: true });
+      if (prompt) await sendToAgent(agent, prompt, { submit: true, startWithPrompt: true });
+    }),
+    // Shortcut key as argument for keybindings; otherwise the agent is picked
+    vscode.commands.registerCommand('terminalShortcuts.sendSelectionToAgent', async (arg?: string) => {
+      await ensureLoaded(load);
+      await sendSelectionToAgent(typeof arg === 'string' ? arg : undefined);
+    }),
+    // Explorer: the clicked resource and the selection; editor: the document
+    vscode.commands.registerCommand('terminalShortcuts.sendFilesToAgent', async (arg?: vscode.Uri | string, selected?: vscode.Uri[]) => {
+      await ensureLoaded(load);
+      const uris = selected?.length ? selected : arg instanceof vscode.Uri ? [arg] : [];
+      await sendFilesToAgent(uris, typeof arg === 'string' ? arg : undefined);
+    }),
+    // From the Prompts view, a keybinding ("args": "prompt name") or the palette
+    vscode.commands.registerCommand('terminalShortcuts.sendPrompt', async (arg?: string | PromptTreeItem) => {
+      await ensureLoaded(load);
+      const prompt = arg ? findPrompt(arg) : await pickPrompt();
+      if (arg && !prompt) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Prompt not found: {0}', String(arg)));
+        return;
+      }
+      if (prompt) await sendPrompt(prompt);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.setSecret', () => setSecret()),
+    vscode.commands.registerCommand('terminalShortcuts.clearSecret', () => clearSecret()),
+    vscode.commands.registerCommand('terminalShortcuts.addPrompt', async () => {
+      await ensureLoaded(load);
+      await afterWrite(await addPrompt());
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.openPromptSource', async (item?: PromptTreeItem) => {
+      if (item) await openLayerSource(item.prompt.layer, item.prompt.folder);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.assignKeybinding', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (!s) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Select a shortcut in the view to assign it a key binding.'));
+        return;
+      }
+      if (await assignKeybinding(s)) await load();
+    }),
+    // Terminals of a shortcut: the tree's context menu and the status bar tooltip
+    vscode.commands.registerCommand('terminalShortcuts.stopShortcut', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (s) stopShortcut(s);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.restartShortcut', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (s) await runShortcut({ ...s, instancePolicy: 'restart' });
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.killTerminal', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (!s) return;
+      services?.requestStop(s.key);
+      ownedTerminals(s)?.forEach(t => t.dispose());
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.revealTerminal', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      if (s) ownedTerminals(s)?.pop()?.show(false);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.showServices', async () => {
+      await ensureLoaded(load);
+      await showServices();
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.showLastOutput', async (arg?: string | ShortcutTreeItem) => {
+      await ensureLoaded(load);
+      const s = arg ? findShortcut(arg) : undefined;
+      const state = s ? runStates.get(s.key) : undefined;
+      if (!s || !state) {
+        vscode.window.showInformationMessage(vscode.l10n.t('No run recorded for this shortcut.'));
+        return;
+      }
+      if (!state.output) {
+        vscode.window.showInformationMessage(vscode.l10n.t('{0}: no output captured (shell integration unavailable or command without output).', s.label));
+        return;
+      }
+      const doc = await vscode.workspace.openTextDocument({ content: stripAnsi(state.output), language: 'log' });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.rerunHistoryEntry', async (item?: HistoryTreeItem) => {
+      if (item) await rerunHistoryEntry(item.entry);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.copyHistoryCommand', async (item?: HistoryTreeItem) => {
+      if (!item) return;
+      await vscode.env.clipboard.writeText(item.entry.command);
+      vscode.window.setStatusBarMessage(vscode.l10n.t('Command copied.'), 1500);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.openHistoryOutput', async (item?: HistoryTreeItem) => {
+      if (!item) return;
+      const entry = runHistory?.get(item.entry.id) ?? item.entry;
+      if (!entry.output) {
+        vscode.window.showInformationMessage(vscode.l10n.t('{0}: no output captured for this run.', entry.label));
+        return;
       }
+      const header = `$ ${entry.command}\n# ${new Date(entry.startedAt).toLocaleString()}${entry.cwd ? ` — ${entry.cwd}` : ''}\n\n`;
+      const doc = await vscode.workspace.openTextDocument({ content: header + stripAnsi(entry.output), language: 'log' });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.clearHistory', async () => {
+      const confirm = await vscode.window.showWarningMessage(vscode.l10n.t('Clear the run history?'), { modal: true }, vscode.l10n.t('Clear'));
+      if (confirm) runHistory?.clear();
     }),
     vscode.commands.registerCommand('terminalShortcuts.openGui', async () => {
       await ensureLoaded(load);
-      ShortcutGuiPanel.show(context, shortcuts);
+      ShortcutManagerPanel.show(context, managerHost);
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.importFrom', async () => {
+      await ensureLoaded(load);
+      await afterWrite(await importFromWorkspace());
+    }),
+    vscode.commands.registerCommand('terminalShortcuts.importShortcuts', async () => {
+      await ensureLoaded(load);
+      await afterWrite(await importSharedFile());
+    }),
+    // From the view: the clicked item and the current multi-selection
+    vscode.commands.registerCommand('terminalShortcuts.exportShortcuts', async (arg?: ShortcutTreeNode, selected?: ShortcutTreeNode[]) => {
+      await ensureLoaded(load);
+      const items = (selected?.length ? selected : arg ? [arg] : []).filter((n): n is ShortcutTreeItem => n instanceof ShortcutTreeItem);
+      await exportShortcuts(items.map(i => i.shortcut));
     }),
   );
 
+  // vscode://<publisher>.terminal-ai-shortcuts/run?id=…: always confirmed, the link may come from anywhere
+  disposables.push(vscode.window.registerUriHandler({
+    handleUri: async uri => {
+      await ensureLoaded(load);
+      const request = parseRunUri(uri);
+      if (!request) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Unsupported link: {0}', uri.toString(true)));
+        return;
+      }
+      const s = findShortcut(request.id);
+      if (!s) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Shortcut not found: {0}', request.id));
+        return;
+      }
+      if (await confirmExternalRun(s, request)) await runShortcut(s, { args: request.args, overrides: request.variables });
+    }
+  }));
+
+  disposables.push(runEvents, shortcutProviders, shortcutsChanged, shortcutProviders.onDidChange(reload));
+
+  // Restricted mode: shortcuts become runnable once the folder is trusted
+  disposables.push(vscode.workspace.onDidGrantWorkspaceTrust(reload));
+
   // Watch settings
   disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('terminalShortcuts.history.maxEntries')) {
+      runHistory?.prune();
+    }
     if (e.affectsConfiguration('terminalShortcuts')) {
-      load();
+      reload();
     }
   }));
 
+  // Live diagnostics while editing a config file
+  disposables.push(validator, vscode.workspace.onDidChangeTextDocument(e => {
+    const file = configFiles.find(f => f.uri.toString() === e.document.uri.toString());
+    if (file) validate(file, e.document.getText());
+  }));
+
   // Watch config files
-  setupFileWatchers(load);
+  setupFileWatchers(reload);
+  disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+    setupFileWatchers(reload);
+    reload();
+  }));
 
   // initial load
-  load();
+  reload();
 
   context.subscriptions.push(...disposables);
+
+  return createApi({ shortcuts: () => shortcuts, run: runRequest }, shortcutProviders, runEvents, shortcutsChanged.event);
 }
 
 export function deactivate() {
@@ -182,57 +486,149 @@ async function ensureLoaded(load: () => Thenable<void>) {
   }
 }
 
-async function loadShortcuts(context: vscode.ExtensionContext): Promise<TerminalShortcutConfig[]> {
-  const fromFile = await readFileConfig();
+// sources: workspace-controlled layers by source key (see sourceKey)
+async function loadShortcuts(context: vscode.ExtensionContext): Promise<{ shortcuts: LoadedShortcut[]; inputs: LoadedInput[]; groups: LoadedGroup[]; prompts: LoadedPrompt[]; files: ConfigFile[]; sources: Map<string, WorkspaceSource> }> {
+  const files = await readFileConfigs();
   const config = vscode.workspace.getConfiguration('terminalShortcuts');
-  const fromSettings = config.get<TerminalShortcutConfig[]>('commands') || [];
+  const inspected = config.inspect<TerminalShortcutConfig[]>('commands');
+  const inputsFromSettings = config.get<ShortcutInputConfig[]>('inputs') || [];
+  const groupsFromSettings = config.get<ShortcutGroupConfig[]>('groups') || [];
   const mergeWithSettings = config.get<boolean>('mergeUserAndWorkspace') ?? true;
+  const useSettings = mergeWithSettings || !files.some(f => Array.isArray(f.config?.commands));
+
+  const inputs: LoadedInput[] = [];
+  const groups: LoadedGroup[] = [];
+  for (const { folder, config: fileConfig } of files) {
+    if (Array.isArray(fileConfig?.inputs)) {
+      inputs.push(...fileConfig!.inputs.map(i => ({ ...i, folder })));
+    }
+    if (Array.isArray(fileConfig?.groups)) {
+      groups.push(...fileConfig!.groups.map(g => ({ ...g, folder })));
+    }
+  }
+  inputs.push(...inputsFromSettings);
+  groups.push(...groupsFromSettings);
+
+  // Settings shared by every folder, then each folder's own layers on top:
+  // a shortcut overridden in a folder belongs to that folder. Shortcuts of
+  // other extensions (API providers) come first, below the defaults.
+  const provided = await shortcutProviders.provide();
+  const shared = mergeLayers([
+    { layer: 'provided', commands: provided },
+    ...(useSettings ? [
+      { layer: 'default', commands: asArray(inspected?.defaultValue) },
+      { layer: 'user', commands: asArray(inspected?.globalValue) },
+      { layer: 'workspace', commands: asArray(inspected?.workspaceValue) }
+    ] as LayerSource[] : [])
+  ]);
+  const workspaceSources = new Map<string, WorkspaceSource>();
+  const addSource = (layer: ConfigLayer, label: string, commands: TerminalShortcutConfig[], folder?: vscode.WorkspaceFolder) => {
+    if (commands.length) workspaceSources.set(sourceKey(layer, folder), { label, commands, hash: hashCommands(commands) });
+  };
+  if (useSettings) addSource('workspace', LAYER_LABELS.workspace, asArray(inspected?.workspaceValue));
+  const overridden = new Set<string>();
+  const result: LoadedShortcut[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const sources: LayerSource[] = [];
+    // Outside a .code-workspace, folder settings are the workspace settings
+    if (useSettings && vscode.workspace.workspaceFile) {
+      const folderValue = vscode.workspace.getConfiguration('terminalShortcuts', folder.uri).inspect<TerminalShortcutConfig[]>('commands')?.workspaceFolderValue;
+      sources.push({ layer: 'workspaceFolder', commands: asArray(folderValue) });
+      addSource('workspaceFolder', `${LAYER_LABELS.workspaceFolder} (${folder.name})`, asArray(folderValue), folder);
+    }
+    for (const file of files) {
+      if (file.folder !== folder || !file.config) continue;
+      sources.push({ layer: file.layer, commands: asArray(file.config.commands) });
+      addSource(file.layer, vscode.workspace.asRelativePath(file.uri), asArray(file.config.commands), folder);
+    }
+    // Detected commands fill the gaps: ids and commands already configured
+    // (pinned or imported) win
+    const configured = [...shared.map(m => m.config), ...sources.flatMap(src => src.commands)];
+    const detected = (await discoverShortcuts(folder)).filter(d => !configured.some(c => c?.id === d.id || c?.command === d.command));
+    if (detected.length) {
+      sources.unshift({ layer: 'detected', commands: detected });
+      addSource('detected', vscode.l10n.t('Detected commands ({0})', folder.name), detected, folder);
+    }
+    const ids = new Set(sources.flatMap(src => src.commands.filter(c => typeof c?.id === 'string').map(c => c.id)));
+    if (!ids.size) continue;
+    const base = shared.filter(m => ids.has(m.config.id));
+    base.forEach(m => overridden.add(m.config.id));
+    result.push(...normalizeShortcuts(context, mergeLayers(sources, base), folder));
+  }
+  result.push(...normalizeShortcuts(context, shared.filter(m => !overridden.has(m.config.id))));
+  return { shortcuts: result, inputs, groups, prompts: loadPrompts(files), files, sources: workspaceSources };
+}
 
-  if (fromFile && fromFile.commands && Array.isArray(fromFile.commands)) {
-    if (mergeWithSettings) {
-      const merged = mergeShortcuts(fromFile.commands, fromSettings);
-      return normalizeShortcuts(context, merged);
+// User and workspace settings, then each folder's files: a prompt redefined
+// under the same name in a higher layer replaces the lower one
+function loadPrompts(files: ConfigFile[]): LoadedPrompt[] {
+  const inspected = vscode.workspace.getConfiguration('terminalShortcuts').inspect<PromptTemplateConfig[]>('prompts');
+  const sources: { layer: ConfigLayer; prompts: PromptTemplateConfig[]; folder?: vscode.WorkspaceFolder }[] = [
+    { layer: 'user', prompts: asArray(inspected?.globalValue) },
+    { layer: 'workspace', prompts: asArray(inspected?.workspaceValue) },
+    ...files.map(f => ({ layer: f.layer, prompts: asArray(f.config?.prompts), folder: f.folder }))
+  ];
+  const byKey = new Map<string, LoadedPrompt>();
+  for (const { layer, prompts, folder } of sources) {
+    for (const p of prompts) {
+      if (typeof p?.name !== 'string' || typeof p.body !== 'string') continue;
+      const key = folder && multiRoot() ? `${folder.name}:${p.name}` : p.name;
+      byKey.delete(key); // keeps the tree in definition order of the winner
+      byKey.set(key, { ...p, key, folder, layer });
     }
-    return normalizeShortcuts(context, fromFile.commands);
   }
-  return normalizeShortcuts(context, fromSettings);
+  return [...byKey.values()];
 }
 
-function normalizeShortcuts(context: vscode.ExtensionContext, arr: TerminalShortcutConfig[]): TerminalShortcutConfig[] {
+function asArray<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Tombstoned (`disabled`) shortcuts are dropped here, after merging
+function normalizeShortcuts(context: vscode.ExtensionContext, merged: MergedShortcut[], folder?: vscode.WorkspaceFolder): LoadedShortcut[] {
   // ensure defaults
-  return arr.map(s => ({
+  return merged.filter(m => !m.config.disabled).map(({ config: s, origins, layers }) => ({
     reuse: true,
     focus: true,
     codicon: 'terminal',
     location: 'editor',
     ...s,
+    label: s.label ?? s.id, // partial overrides may leave it unset
+    command: s.command || (s.agent ? agentCommand(s) : '') || '', // optional for composite and agent shortcuts
+    key: folder && multiRoot() ? `${folder.name}:${s.id}` : s.id,
+    folder,
+    origins,
+    layers,
   }));
 }
 
-function mergeShortcuts(primary: TerminalShortcutConfig[], secondary: TerminalShortcutConfig[]): TerminalShortcutConfig[] {
-  // Primary wins on id conflicts; append unique ids from secondary
-  const ids = new Set(primary.map(s => s.id));
-  const extras = secondary.filter(s => !ids.has(s.id));
-  return [...primary, ...extras];
+function multiRoot(): boolean {
+  return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+}
+
+// Accepts a shortcut key, a bare id (first match wins) or a tree item (context menus)
+function findShortcut(arg: string | ShortcutTreeItem): LoadedShortcut | undefined {
+  if (arg instanceof ShortcutTreeItem) return arg.shortcut;
+  return shortcuts.find(x => x.key === arg) ?? shortcuts.find(x => x.id === arg);
 }
 
-function resolveTreeItemIcon(context: vscode.ExtensionContext, s: TerminalShortcutConfig): { light?: vscode.Uri; dark?: vscode.Uri } | vscode.ThemeIcon | undefined {
+function resolveTreeItemIcon(context: vscode.ExtensionContext, s: LoadedShortcut): ShortcutIcon {
   if (!s.icon || (!s.icon.light && !s.icon.dark)) {
     // fallback to codicon
     return new vscode.ThemeIcon(s.codicon || 'terminal');
   }
-  const light = s.icon.light ? resolveIconUri(context, s.icon.light) : undefined;
-  const dark = s.icon.dark ? resolveIconUri(context, s.icon.dark) : undefined;
+  const light = s.icon.light ? resolveIconUri(context, s.icon.light, s.folder) : undefined;
+  const dark = s.icon.dark ? resolveIconUri(context, s.icon.dark, s.folder) : undefined;
   return { light, dark };
 }
 
-function resolveIconUri(context: vscode.ExtensionContext, p: string): vscode.Uri {
+function resolveIconUri(context: vscode.ExtensionContext, p: string, folder?: vscode.WorkspaceFolder): vscode.Uri {
   // If path looks like extension asset (images/..), resolve from extension
   if (p.startsWith('images/')) {
     return vscode.Uri.joinPath(context.extensionUri, p);
   }
-  // If relative and workspace exists, resolve from workspace
-  const ws = vscode.workspace.workspaceFolders?.[0]?.uri;
+  // If relative and workspace exists, resolve from the owning folder
+  const ws = (folder ?? vscode.workspace.workspaceFolders?.[0])?.uri;
   if (ws && (p.startsWith('./') || p.startsWith('../'))) {
     return vscode.Uri.joinPath(ws, p);
   }
@@ -244,48 +640,90 @@ function resolveIconUri(context: vscode.ExtensionContext, p: string): vscode.Uri
   return vscode.Uri.joinPath(context.extensionUri, p);
 }
 
-async function readFileConfig(): Promise<FileConfig | undefined> {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || !folders.length) return undefined;
-  const root = folders[0].uri;
-  const primary = vscode.Uri.joinPath(root, '.vscode/terminal-shortcuts.json');
-  const fallback = vscode.Uri.joinPath(root, 'terminal-shortcuts.json');
-  for (const uri of [primary, fallback]) {
+interface ConfigFile {
+  folder: vscode.WorkspaceFolder;
+  layer: FileLayer;
+  uri: vscode.Uri;
+  text: string;
+  config: FileConfig | undefined; // undefined when the file has parse errors
+}
+
+type FileLayer = 'file' | 'local';
+
+const LOCAL_CONFIG = '.vscode/terminal-shortcuts.local.json';
+
+async function readConfigFile(folder: vscode.WorkspaceFolder, layer: FileLayer): Promise<ConfigFile | undefined> {
+  const root = folder.uri;
+  const candidates = layer === 'local'
+    ? [vscode.Uri.joinPath(root, LOCAL_CONFIG)]
+    : [vscode.Uri.joinPath(root, '.vscode/terminal-shortcuts.json'), vscode.Uri.joinPath(root, 'terminal-shortcuts.json')];
+  for (const uri of candidates) {
+    let text: string;
     try {
       const data = await vscode.workspace.fs.readFile(uri);
-      const text = new TextDecoder('utf-8').decode(data);
-      const config = JSON.parse(text);
-      if (config && typeof config === 'object') return config as FileConfig;
+      text = new TextDecoder('utf-8').decode(data);
     } catch {
-      // ignore
+      continue; // missing file
     }
+    // Files with syntax errors are skipped; the validator reports why
+    const { config, errors } = parseFileConfig(text);
+    return { folder, layer, uri, text, config: errors.length ? undefined : config };
   }
   return undefined;
 }
 
+async function readFileConfigs(): Promise<ConfigFile[]> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const result: ConfigFile[] = [];
+  for (const folder of folders) {
+    for (const layer of ['file', 'local'] as FileLayer[]) {
+      const found = await readConfigFile(folder, layer);
+      if (found) result.push(found);
+    }
+  }
+  return result;
+}
+
 function setupFileWatchers(onChange: () => void) {
   fileWatchers.forEach(w => w.dispose());
   fileWatchers = [];
   const folders = vscode.workspace.workspaceFolders;
   if (!folders || !folders.length) return;
-  const patterns = ['**/.vscode/terminal-shortcuts.json', '**/terminal-shortcuts.json'];
-  patterns.forEach(glob => {
-    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folders[0], glob));
-    watcher.onDidCreate(onChange);
-    watcher.onDidChange(onChange);
-    watcher.onDidDelete(onChange);
+  const patterns = ['**/.vscode/terminal-shortcuts.json', '**/terminal-shortcuts.json', `**/${LOCAL_CONFIG}`];
+  const watch = (folder: vscode.WorkspaceFolder, glob: string, listener: () => void) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, glob));
+    watcher.onDidCreate(listener);
+    watcher.onDidChange(listener);
+    watcher.onDidDelete(listener);
     fileWatchers.push(watcher);
-  });
+  };
+  for (const folder of folders) {
+    patterns.forEach(glob => watch(folder, glob, onChange));
+    // Detected shortcuts follow the project scripts, when discovery is on
+    watch(folder, `{${DISCOVERY_FILES.join(',')}}`, () => {
+      if (discoveryEnabled(folder)) onChange();
+    });
+  }
+}
+
+// Single folder: returned directly; multi-root: asks the user
+async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders;
+  if (!folders || !folders.length) return undefined;
+  if (folders.length === 1) return folders[0];
+  return vscode.window.showWorkspaceFolderPick({ placeHolder, ignoreFocusOut: true });
 }
 
-async function openOrCreateConfig() {
+async function openOrCreateConfig(target?: vscode.WorkspaceFolder) {
   const folders = vscode.workspace.workspaceFolders;
   if (!folders || !folders.length) {
-    vscode.window.showWarningMessage("Pas de dossier ouvert. Utilisez les paramètres utilisateur 'terminalShortcuts.commands'.");
+    vscode.window.showWarningMessage(vscode.l10n.t('No folder open. Use the user setting \'terminalShortcuts.commands\'.'));
     await vscode.commands.executeCommand('workbench.action.openSettings', 'terminalShortcuts.commands');
     return;
   }
-  const root = folders[0].uri;
+  const folder = target ?? await pickWorkspaceFolder(vscode.l10n.t('Open the configuration of which folder?'));
+  if (!folder) return;
+  const root = folder.uri;
   const dir = vscode.Uri.joinPath(root, '.vscode');
   const file = vscode.Uri.joinPath(dir, 'terminal-shortcuts.json');
   try {
@@ -336,349 +774,1815 @@ async function openOrCreateConfig() {
   await vscode.window.showTextDocument(doc, { preview: false });
 }
 
+// Personal overrides, meant to stay out of version control
+async function openOrCreateLocalConfig(target?: vscode.WorkspaceFolder) {
+  const folder = target ?? await pickWorkspaceFolder(vscode.l10n.t('Open the local overrides of which folder?'));
+  if (!folder) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No folder open to create local overrides.'));
+    return;
+  }
+  const file = vscode.Uri.joinPath(folder.uri, LOCAL_CONFIG);
+  try {
+    await vscode.workspace.fs.stat(file);
+  } catch {
+    try { await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, '.vscode')); } catch {}
+    const comment = vscode.l10n.t('Personal overrides: only the fields given here replace those of the other layers');
+    const sample = `{\n  // ${comment}\n  "commands": []\n}\n`;
+    await vscode.workspace.fs.writeFile(file, new TextEncoder().encode(sample));
+    await offerGitignore(folder);
+  }
+  const doc = await vscode.workspace.openTextDocument(file);
+  await vscode.window.showTextDocument(doc, { preview: false });
+}
+
+async function offerGitignore(folder: vscode.WorkspaceFolder) {
+  const gitignore = vscode.Uri.joinPath(folder.uri, '.gitignore');
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(gitignore));
+  } catch {
+    return; // not a git project (or no .gitignore at its root)
+  }
+  const entry = LOCAL_CONFIG;
+  if (text.split(/\r?\n/).some(line => line.trim() === entry || line.trim() === `/${entry}`)) return;
+  const choice = await vscode.window.showInformationMessage(vscode.l10n.t('Add {0} to .gitignore?', entry), vscode.l10n.t('Add'));
+  if (!choice) return;
+  const updated = `${text}${text && !text.endsWith('\n') ? '\n' : ''}${entry}\n`;
+  await vscode.workspace.fs.writeFile(gitignore, new TextEncoder().encode(updated));
+}
+
 function disposeStatusBar() {
   for (const item of statusBarItems.values()) {
     item.dispose();
   }
   statusBarItems.clear();
+  for (const item of [serviceStatusItem, compactStatusItem, overflowStatusItem]) item?.dispose();
+  serviceStatusItem = compactStatusItem = overflowStatusItem = undefined;
 }
 
+// Items have stable ids, so that VS Code remembers the ones hidden from its
+// status bar context menu. Without a statusBarPriority, shortcuts keep their
+// configuration order.
 function rebuildStatusBar(context: vscode.ExtensionContext) {
   disposeStatusBar();
   const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
   const showAll = cfg.get<boolean>('showInStatusBar') ?? false;
-  const alignStr = cfg.get<string>('statusBar.alignment') ?? 'left';
+  const alignment = statusBarAlignment(cfg.get<string>('statusBar.alignment'));
   const priority = cfg.get<number>('statusBar.priority') ?? 100;
-  const alignment = alignStr === 'right' ? vscode.StatusBarAlignment.Right : vscode.StatusBarAlignment.Left;
 
-  for (const s of shortcuts) {
-    if (!(showAll || s.statusBar)) continue;
-    const item = vscode.window.createStatusBarItem(alignment, priority);
-    const iconId = s.codicon || 'terminal';
-    const label = s.statusBarText && s.statusBarText.trim().length > 0 ? s.statusBarText : `${s.label}`;
-    item.text = `$(${iconId}) ${label}`.trim();
-    item.tooltip = `${s.label} — ${s.command}`;
-    item.command = { command: 'terminalShortcuts.runShortcut', title: s.label, arguments: [s.id] };
-    item.show();
-    statusBarItems.set(s.id, item);
+  const candidates = shortcuts.filter(s => showAll || s.statusBar || usage?.isFavorite(s));
+  if (cfg.get<boolean>('statusBar.compact') && candidates.length) {
+    compactStatusItem = vscode.window.createStatusBarItem('terminalShortcuts.compact', alignment, priority);
+    compactStatusItem.name = vscode.l10n.t('Terminal Shortcuts');
+    compactStatusKeys = candidates.map(s => s.key);
+    compactStatusItem.command = { command: 'terminalShortcuts.showStatusBarMenu', title: vscode.l10n.t('Shortcuts'), arguments: [compactStatusKeys] };
+  } else {
+    candidates.forEach((s, i) => {
+      const item = vscode.window.createStatusBarItem(
+        `terminalShortcuts.shortcut.${s.key}`,
+        s.statusBarAlignment ? statusBarAlignment(s.statusBarAlignment) : alignment,
+        s.statusBarPriority ?? priority - i / 1000
+      );
+      item.name = vscode.l10n.t('Terminal Shortcut: {0}', s.label);
+      item.command = { command: 'terminalShortcuts.runShortcut', title: s.label, arguments: [s.key] };
+      renderStatusBarItem(item, s);
+      statusBarItems.set(s.key, item);
+    });
+    overflowStatusItem = vscode.window.createStatusBarItem('terminalShortcuts.overflow', alignment, priority - candidates.length / 1000 - 0.001);
+    overflowStatusItem.name = vscode.l10n.t('Terminal Shortcuts: More');
   }
+  layoutStatusBar();
+  if (shortcuts.some(s => s.background)) {
+    serviceStatusItem = vscode.window.createStatusBarItem('terminalShortcuts.services', alignment, priority + 0.5);
+    serviceStatusItem.name = vscode.l10n.t('Terminal Shortcuts: Services');
+    serviceStatusItem.command = 'terminalShortcuts.showServices';
+    renderServiceStatusItem();
+    serviceStatusItem.show();
+  }
+}
+
+function statusBarAlignment(value: string | undefined): vscode.StatusBarAlignment {
+  return value === 'right' ? vscode.StatusBarAlignment.Right : vscode.StatusBarAlignment.Left;
 }
 
-async function runShortcut(s: TerminalShortcutConfig) {
-  const name = s.terminalName || s.label || s.id;
-  let terminal: vscode.Terminal | undefined;
-  if (s.reuse !== false) {
-    terminal = vscode.window.terminals.find(t => t.name === name);
+// Shows the items whose `when` holds, at most statusBar.maxVisible of them
+// (highest priority first); the others are listed by the "+N" item
+function layoutStatusBar() {
+  if (compactStatusItem) {
+    renderCompactStatusItem();
+    compactStatusItem.show();
+    return;
   }
-  if (!terminal) {
-    const options: vscode.TerminalOptions = {
-      name,
-      cwd: s.cwd,
-      env: s.env,
-      location: resolveTerminalLocation(s)
-    };
-    terminal = vscode.window.createTerminal(options);
+  const max = vscode.workspace.getConfiguration('terminalShortcuts').get<number>('statusBar.maxVisible') ?? 0;
+  const shown = [...statusBarItems]
+    .filter(([key]) => { const s = shortcuts.find(x => x.key === key); return s && isShown(s); })
+    .sort(([, a], [, b]) => (b.priority ?? 0) - (a.priority ?? 0));
+  const visible = new Set(max > 0 ? shown.slice(0, max).map(([key]) => key) : shown.map(([key]) => key));
+  for (const [key, item] of statusBarItems) {
+    if (visible.has(key)) item.show();
+    else item.hide();
+  }
+  const hidden = shown.filter(([key]) => !visible.has(key)).map(([key]) => key);
+  if (!overflowStatusItem) return;
+  if (!hidden.length) {
+    overflowStatusItem.hide();
+    return;
   }
-  const focus = s.focus !== false;
-  terminal.show(focus);
-  terminal.sendText(s.command, true);
+  overflowStatusItem.text = `$(ellipsis) +${hidden.length}`;
+  overflowStatusItem.tooltip = vscode.l10n.t('{0} more shortcuts…', hidden.length);
+  overflowStatusItem.command = { command: 'terminalShortcuts.showStatusBarMenu', title: vscode.l10n.t('More…'), arguments: [hidden] };
+  overflowStatusItem.show();
 }
 
-function resolveTerminalLocation(s: TerminalShortcutConfig): vscode.TerminalLocation | vscode.TerminalEditorLocationOptions {
-  if (s.location === 'panel') return vscode.TerminalLocation.Panel;
-  const col = toViewColumn(s.viewColumn);
-  return { viewColumn: col, preserveFocus: s.focus === false };
+// After a run state, service or terminal change
+function refreshStatusBarItem(key: string) {
+  const item = statusBarItems.get(key);
+  const s = shortcuts.find(x => x.key === key);
+  if (item && s) renderStatusBarItem(item, s);
+  renderCompactStatusItem();
 }
 
-function toViewColumn(n?: number): vscode.ViewColumn {
-  switch (n) {
-    case 2: return vscode.ViewColumn.Two;
-    case 3: return vscode.ViewColumn.Three;
-    default: return vscode.ViewColumn.Active;
-  }
+// "Shortcuts", spinning while one of them runs, red when the last run of one failed
+function renderCompactStatusItem() {
+  if (!compactStatusItem) return;
+  const states = compactStatusKeys.map(key => runStates.get(key));
+  const running = states.filter(st => st?.status === 'running').length;
+  const failed = states.some(st => st?.status === 'failed');
+  compactStatusItem.text = running ? `$(loading~spin) ${vscode.l10n.t('Shortcuts')} ${running}` : `$(terminal) ${vscode.l10n.t('Shortcuts')}`;
+  compactStatusItem.tooltip = vscode.l10n.t('{0} shortcuts: click to choose one', compactStatusKeys.length);
+  compactStatusItem.backgroundColor = stateBackground(failed ? 'failed' : running ? 'running' : undefined);
 }
 
-async function promptAndCreateGlobalShortcut(): Promise<TerminalShortcutConfig | undefined> {
-  const label = await vscode.window.showInputBox({ prompt: 'Label du raccourci', value: 'My Shortcut', ignoreFocusOut: true });
-  if (!label) return undefined;
-  const command = await vscode.window.showInputBox({ prompt: 'Commande à exécuter', placeHolder: 'ex: claude --dangerously-skip-permissions', ignoreFocusOut: true });
-  if (!command) return undefined;
-  const defaultId = label.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9\-_.]/g, '');
-  const id = await vscode.window.showInputBox({ prompt: 'Identifiant (unique)', value: defaultId || 'shortcut', ignoreFocusOut: true });
-  if (!id) return undefined;
-  const terminalName = await vscode.window.showInputBox({ prompt: 'Nom du terminal (optionnel)', value: label, ignoreFocusOut: true });
-  const showInStatus = await vscode.window.showQuickPick(['Oui', 'Non'], { placeHolder: 'Afficher en barre d’état ?', canPickMany: false, ignoreFocusOut: true });
-  const where = await vscode.window.showQuickPick(['Éditeur (principal)', 'Panneau (bas)'], { placeHolder: 'Ouvrir le terminal où ?', canPickMany: false, ignoreFocusOut: true });
-  const codicon = await vscode.window.showInputBox({ prompt: 'Icône codicon (optionnel, ex: robot, rocket, tools)', value: 'terminal', ignoreFocusOut: true });
+// Background of an item for a run state (statusBar.stateColors)
+function stateBackground(status: 'running' | 'failed' | undefined): vscode.ThemeColor | undefined {
+  if (!status || !(vscode.workspace.getConfiguration('terminalShortcuts').get<boolean>('statusBar.stateColors') ?? true)) return undefined;
+  return new vscode.ThemeColor(status === 'failed' ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground');
+}
 
-  const newShortcut: TerminalShortcutConfig = {
-    id,
-    label,
-    command,
-    terminalName: terminalName || undefined,
-    reuse: true,
-    focus: true,
-    statusBar: showInStatus === 'Oui',
-    codicon: (codicon && codicon.trim()) ? codicon.trim() : 'terminal',
-    location: where?.startsWith('Panneau') ? 'panel' : 'editor'
-  };
-  const ok = await upsertGlobalShortcut(newShortcut);
-  return ok ? newShortcut : undefined;
+interface StatusBarPickItem extends vscode.QuickPickItem {
+  s?: LoadedShortcut; // undefined for separators
 }
 
-async function upsertGlobalShortcut(s: TerminalShortcutConfig): Promise<boolean> {
-  const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
-  const current = cfg.get<TerminalShortcutConfig[]>('commands') || [];
-  const idx = current.findIndex(x => x.id === s.id);
-  if (idx >= 0) current[idx] = s; else current.push(s);
-  try {
-    await cfg.update('commands', current, vscode.ConfigurationTarget.Global);
-    return true;
-  } catch (e) {
-    vscode.window.showErrorMessage('Impossible de mettre à jour les paramètres utilisateur pour enregistrer le raccourci.');
-    return false;
-  }
+// Status bar shortcuts (all or the overflowing ones), by group
+async function pickStatusBarShortcut(keys?: string[]): Promise<LoadedShortcut | undefined> {
+  const list = shortcuts.filter(s => isShown(s) && (!keys || keys.includes(s.key)));
+  const groups = [...new Set(list.map(s => s.group ?? ''))].sort((a, b) => !a ? -1 : !b ? 1 : a.localeCompare(b));
+  const items: StatusBarPickItem[] = groups.flatMap(group => [
+    ...(groups.length > 1 ? [{ label: group || vscode.l10n.t('No group'), kind: vscode.QuickPickItemKind.Separator }] : []),
+    ...list.filter(s => (s.group ?? '') === group).map(s => {
+      const state = runStates.get(s.key);
+      return {
+        label: `$(${state ? runStateIcon(state)?.id ?? s.codicon ?? 'terminal' : s.codicon || 'terminal'}) ${s.label}`,
+        description: state ? describeRunState(state) : undefined,
+        detail: secretVault?.redact(commandSummary(s)) ?? commandSummary(s),
+        s
+      };
+    })
+  ]);
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: vscode.l10n.t('Choose a shortcut to run'), matchOnDetail: true });
+  return pick?.s;
 }
 
-function makeUniqueId(base: string, existing: Set<string>): string {
-  if (!existing.has(base)) return base;
-  let i = 1;
-  while (existing.has(`${base}-${i}`)) i++;
-  return `${base}-${i}`;
+interface ShortcutPickItem extends vscode.QuickPickItem {
+  s?: LoadedShortcut; // undefined for separators
 }
 
-// Simple GUI (webview) to add/edit one shortcut quickly
-class ShortcutGuiPanel {
-  public static current: ShortcutGuiPanel | undefined;
-  private readonly panel: vscode.WebviewPanel;
+const RECENT_IN_PICKER = 5;
 
-  static show(context: vscode.ExtensionContext, shortcuts: TerminalShortcutConfig[]) {
-    const column = vscode.ViewColumn.Active;
-    if (ShortcutGuiPanel.current) {
-      ShortcutGuiPanel.current.panel.reveal(column);
-      ShortcutGuiPanel.current.update(shortcuts);
-      return;
-    }
-    const panel = vscode.window.createWebviewPanel('terminalShortcutsGui', 'Terminal Shortcuts — GUI', column, {
-      enableScripts: true,
+// Run picker: favorites, then the last shortcuts run, then the others, each
+// section by frecency. Item buttons toggle the favorite, open the shortcut in
+// the manager or its configuration source.
+function pickShortcut(context: vscode.ExtensionContext, edit: (s: LoadedShortcut) => void): Promise<LoadedShortcut | undefined> {
+  const favoriteButton = (s: LoadedShortcut): vscode.QuickInputButton => usage!.isFavorite(s)
+    ? { iconPath: new vscode.ThemeIcon('star-full'), tooltip: vscode.l10n.t('Remove from Favorites') }
+    : { iconPath: new vscode.ThemeIcon('star-empty'), tooltip: vscode.l10n.t('Add to Favorites') };
+  const editButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: vscode.l10n.t('Edit in the Manager') };
+  const sourceButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: vscode.l10n.t('Open Configuration Source') };
+
+  const buildItems = (): ShortcutPickItem[] => {
+    const now = Date.now();
+    const byScore = (list: LoadedShortcut[]) => [...list].sort((a, b) => usage!.score(b, now) - usage!.score(a, now));
+    const shown = shortcuts.filter(isShown);
+    const favorites = byScore(shown.filter(s => usage!.isFavorite(s)));
+    const recent = usage!.recent(shown).filter(s => !favorites.includes(s)).slice(0, RECENT_IN_PICKER);
+    const others = byScore(shown.filter(s => !favorites.includes(s) && !recent.includes(s)));
+    const sections: [string, LoadedShortcut[]][] = [
+      [vscode.l10n.t('Favorites'), favorites],
+      [vscode.l10n.t('Recently Run'), recent],
+      [vscode.l10n.t('Shortcuts'), others]
+    ];
+    const nonEmpty = sections.filter(([, list]) => list.length);
+    return nonEmpty.flatMap(([title, list]) => [
+      ...(nonEmpty.length > 1 ? [{ label: title, kind: vscode.QuickPickItemKind.Separator }] : []),
+      ...list.map(s => ({
+        label: s.label,
+        description: [s.group, s.terminalName, multiRoot() ? s.folder?.name : undefined].filter(Boolean).join(' · '),
+        detail: commandSummary(s),
+        buttons: [favoriteButton(s), editButton, sourceButton],
+        s
+      }))
+    ]);
+  };
+
+  const quickPick = vscode.window.createQuickPick<ShortcutPickItem>();
+  quickPick.placeholder = vscode.l10n.t('Choose a shortcut to run');
+  quickPick.matchOnDescription = true;
+  quickPick.matchOnDetail = true;
+  quickPick.items = buildItems();
+  return new Promise(resolve => {
+    let picked: LoadedShortcut | undefined;
+    quickPick.onDidAccept(() => {
+      picked = quickPick.selectedItems[0]?.s;
+      if (picked) quickPick.hide();
     });
-    ShortcutGuiPanel.current = new ShortcutGuiPanel(panel, context, shortcuts);
-  }
-
-  private constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext, shortcuts: TerminalShortcutConfig[]) {
-    this.panel = panel;
-    this.panel.onDidDispose(() => { ShortcutGuiPanel.current = undefined; });
-    this.panel.webview.onDidReceiveMessage(async (msg) => {
-      if (msg?.type === 'saveGlobal' && msg.shortcut) {
-        await upsertGlobalShortcut(msg.shortcut as TerminalShortcutConfig);
-        vscode.window.showInformationMessage('Raccourci global enregistré.');
-      } else if (msg?.type === 'saveWorkspace' && msg.shortcut) {
-        await upsertWorkspaceShortcut(msg.shortcut as TerminalShortcutConfig);
-        vscode.window.showInformationMessage('Raccourci enregistré dans le workspace.');
-      } else if (msg?.type === 'requestTerminalName') {
-        const names = vscode.window.terminals.map(t => t.name);
-        if (!names.length) {
-          vscode.window.showInformationMessage('Aucun terminal ouvert.');
-        } else {
-          const picked = await vscode.window.showQuickPick(names, { placeHolder: 'Choisissez un terminal existant' });
-          if (picked) {
-            this.panel.webview.postMessage({ type: 'setTerminalName', name: picked });
-          }
-        }
-      } else if (msg?.type === 'duplicateGlobal' && msg.shortcut) {
-        const s = msg.shortcut as TerminalShortcutConfig;
-        const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
-        const current = cfg.get<TerminalShortcutConfig[]>('commands') || [];
-        const exists = current.some(x => x.id === s.id);
-        let toSave = { ...s };
-        if (exists) {
-          const choice = await vscode.window.showQuickPick([
-            { label: 'Écraser', value: 'overwrite' },
-            { label: 'Créer une copie (-global)', value: 'copy' }
-          ], { placeHolder: `Un raccourci global avec l'id "${s.id}" existe déjà.` });
-          if (!choice) return;
-          if (choice.value === 'copy') {
-            const ids = new Set(current.map(x => x.id));
-            toSave.id = makeUniqueId(`${s.id}-global`, ids);
-          }
-        }
-        await upsertGlobalShortcut(toSave);
-        vscode.window.showInformationMessage(`Raccourci dupliqué en global: ${toSave.label} (${toSave.id})`);
-      } else if (msg?.type === 'openWorkspaceJson') {
-        await openOrCreateConfig();
+    quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+      const s = item.s!;
+      if (button === editButton) {
+        quickPick.hide();
+        edit(s);
+      } else if (button === sourceButton) {
+        quickPick.hide();
+        await openLayerSource(topLayer(s.layers) ?? 'user', s.folder);
+      } else {
+        await usage!.toggleFavorite(s);
+        const active = quickPick.activeItems[0]?.s;
+        quickPick.items = buildItems();
+        quickPick.activeItems = quickPick.items.filter(i => i.s === active);
+        rebuildStatusBar(context);
       }
     });
-    this.setHtml(shortcuts);
-  }
-
-  update(shortcuts: TerminalShortcutConfig[]) {
-    this.setHtml(shortcuts);
-  }
-
-  private setHtml(shortcuts: TerminalShortcutConfig[]) {
-    const escaped = (s: string) => s.replace(/[&<>]/g, c => ({'&':'&amp;','<':'&lt;','>':'&gt;'}[c]!));
-    const list = shortcuts.map(s => `<option value="${escaped(s.id)}">${escaped(s.label)} — ${escaped(s.command)}</option>`).join('');
-    this.panel.webview.html = `<!doctype html>
-<html lang="fr">
-<head>
-  <meta charset="utf-8" />
-  <meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>
-    body { font: 13px/1.4 var(--vscode-font-family); color: var(--vscode-foreground); background: var(--vscode-editor-background); padding: 12px; }
-    input, select { width: 100%; margin: 4px 0 10px; padding: 6px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border); }
-    label { font-weight: 600; }
-    .row { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
-    button { margin-right: 8px; }
-    details { margin: 12px 0; }
-    summary { cursor: pointer; font-weight: 600; }
-  </style>
-  <script>
-    const vscode = acquireVsCodeApi();
-    function getShortcut(){
-      return {
-        id: document.getElementById('id').value.trim(),
-        label: document.getElementById('label').value.trim(),
-        command: document.getElementById('command').value.trim(),
-        terminalName: document.getElementById('tname').value.trim() || undefined,
-        location: document.getElementById('location').value,
-        reuse: document.getElementById('reuse').checked,
-        focus: document.getElementById('focus').checked,
-        statusBar: document.getElementById('statusBar').checked,
-        codicon: document.getElementById('codicon').value.trim() || 'terminal'
-      };
-    }
-    function loadFromList(){
-      const sel = document.getElementById('existing');
-      const id = sel.value;
-      if(!id) return;
-      const opt = sel.selectedOptions[0];
-      const text = opt.textContent;
-      document.getElementById('id').value = id;
-      document.getElementById('label').value = text.split(' — ')[0];
-      document.getElementById('command').value = (text.split(' — ')[1]||'');
-    }
-    function save(where){
-      const s = getShortcut();
-      if(!s.id || !s.label || !s.command){ alert('id, label, command requis'); return; }
-      vscode.postMessage({ type: where === 'global' ? 'saveGlobal' : 'saveWorkspace', shortcut: s });
-    }
-    function requestTerminalName(){
-      vscode.postMessage({ type: 'requestTerminalName' });
-    }
-    window.addEventListener('message', (event) => {
-      const msg = event.data;
-      if (msg && msg.type === 'setTerminalName' && msg.name) {
-        const el = document.getElementById('tname');
-        if (el) el.value = msg.name;
-      }
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(picked);
     });
-    function duplicateGlobal(){
-      const s = getShortcut();
-      if(!s.id || !s.label || !s.command){ alert('id, label, command requis'); return; }
-      vscode.postMessage({ type: 'duplicateGlobal', shortcut: s });
-    }
-    function openWorkspaceJson(){
-      vscode.postMessage({ type: 'openWorkspaceJson' });
-    }
-  </script>
-</head>
-<body>
-  <h2>Configurer un raccourci</h2>
-  <label>Charger depuis existant</label>
-  <select id="existing" onchange="loadFromList()">
-    <option value="">—</option>
-    ${list}
-  </select>
-  <div class="row">
-    <div>
-      <label>Label</label>
-      <input id="label" placeholder="Claude AI" />
-    </div>
-    <div>
-      <label>Identifiant</label>
-      <input id="id" placeholder="claude" />
-    </div>
-  </div>
-  <label>Commande</label>
-  <input id="command" placeholder="claude --dangerously-skip-permissions" />
-  <div class="row">
-    <div>
-      <label>Nom du terminal</label>
-      <div style="display:flex; gap:8px; align-items:center;">
-        <input id="tname" placeholder="Claude" style="flex:1;" />
-        <button type="button" onclick="requestTerminalName()">Choisir…</button>
-      </div>
-    </div>
-    <div>
-      <label>Emplacement</label>
-      <select id="location">
-        <option value="editor">Éditeur (principal)</option>
-        <option value="panel">Panneau (bas)</option>
-      </select>
-    </div>
-  </div>
-  <div class="row">
-    <div>
-      <label><input type="checkbox" id="reuse" checked /> Réutiliser le terminal</label>
-    </div>
-    <div>
-      <label><input type="checkbox" id="focus" checked /> Focus après exécution</label>
-    </div>
-  </div>
-  <div class="row">
-    <div>
-      <label>Icône codicon</label>
-      <input id="codicon" placeholder="robot" value="terminal" />
-    </div>
-    <div>
-      <label><input type="checkbox" id="statusBar" /> Afficher en barre d’état</label>
-    </div>
-  </div>
-  <p>
-    <button onclick="save('global')">Enregistrer global</button>
-    <button onclick="save('workspace')">Enregistrer dans le projet</button>
-    <button onclick="duplicateGlobal()">Dupliquer en global</button>
-    <button onclick="openWorkspaceJson()">Ouvrir JSON du projet</button>
-  </p>
-  <details>
-    <summary>Aide</summary>
-    <ul>
-      <li>Label, Commande et Identifiant sont requis.</li>
-      <li>Nom du terminal permet de réutiliser un terminal existant (bouton « Choisir… » pour sélectionner).</li>
-      <li>Emplacement « Éditeur » ouvre le terminal dans la zone principale; « Panneau » l’ouvre en bas.</li>
-      <li>« Enregistrer global » rend le raccourci disponible dans tous vos dossiers VS Code; « Enregistrer dans le projet » le stocke dans .vscode/terminal-shortcuts.json.</li>
-      <li>« Dupliquer en global » copie ce qui est dans le formulaire vers vos paramètres globaux (avec gestion des conflits d’identifiant).</li>
-    </ul>
-  </details>
-</body>
-</html>`;
-  }
-}
-
-async function upsertWorkspaceShortcut(s: TerminalShortcutConfig): Promise<boolean> {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || !folders.length) {
-    vscode.window.showWarningMessage('Aucun dossier ouvert pour enregistrer dans le workspace.');
-    return false;
+    quickPick.show();
+  });
+}
+
+// `when` only hides a shortcut from the tree, the status bar and the run
+// picker: it still runs by id (keybindings, steps). An invalid clause (reported
+// by the validator) hides nothing.
+function isShown(s: LoadedShortcut): boolean {
+  if (!s.when || !whenContext) return true;
+  let clause = whenClauses.get(s.when);
+  if (clause === undefined) {
+    try {
+      clause = parseWhen(s.when);
+    } catch {
+      clause = null;
+    }
+    whenClauses.set(s.when, clause);
   }
-  const root = folders[0].uri;
-  const dir = vscode.Uri.joinPath(root, '.vscode');
-  const file = vscode.Uri.joinPath(dir, 'terminal-shortcuts.json');
-  try { await vscode.workspace.fs.createDirectory(dir); } catch {}
-  let json: FileConfig = { commands: [] };
-  try {
-    const data = await vscode.workspace.fs.readFile(file);
-    json = JSON.parse(new TextDecoder('utf-8').decode(data));
-    if (!json.commands) json.commands = [];
-  } catch {}
-  const idx = json.commands!.findIndex(x => x.id === s.id);
-  if (idx >= 0) json.commands![idx] = s; else json.commands!.push(s);
+  return !clause || clause(whenContext.facts(s.folder));
+}
+
+function shownKeysOf(): string {
+  return shortcuts.filter(isShown).map(s => s.key).join('\n');
+}
+
+// The editor, a watched file, the git branch or trust changed
+function updateVisibility() {
+  const keys = shownKeysOf();
+  if (keys === shownKeys) return;
+  shownKeys = keys;
+  treeProvider?.refresh();
+  layoutStatusBar();
+}
+
+// One item for all the services: "Services 2/3", red when one failed
+function renderServiceStatusItem() {
+  if (!serviceStatusItem) return;
+  const list = shortcuts.filter(s => s.background);
+  const states = list.map(s => services?.get(s.key));
+  const ready = states.filter(st => st?.status === 'ready').length;
+  const failed = states.some(st => st?.status === 'failed');
+  const icon = failed ? 'error' : states.some(st => st?.status === 'starting') ? 'loading~spin' : 'server-process';
+  serviceStatusItem.text = `$(${icon}) ${vscode.l10n.t('Services {0}/{1}', ready, list.length)}`;
+  serviceStatusItem.tooltip = list.map((s, i) => `${s.label}: ${states[i] ? summarizeServiceState(states[i]!) : vscode.l10n.t('not started')}`).join('\n');
+  serviceStatusItem.backgroundColor = failed ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+}
+
+function renderStatusBarItem(item: vscode.StatusBarItem, s: LoadedShortcut) {
+  const state = runStates.get(s.key);
+  const service = services?.get(s.key);
+  const locked = unapprovedSources(s).length > 0;
+  const iconId = locked ? 'lock'
+    : service ? serviceStateIcon(service)!.id
+    : state ? (runStateIcon(state)?.id ?? s.codicon ?? 'terminal') : (s.codicon || 'terminal');
+  const label = s.statusBarText && s.statusBarText.trim().length > 0 ? s.statusBarText : `${s.label}`;
+  item.text = `$(${iconId}) ${label}`.trim();
+  item.color = !s.statusBarColor ? undefined : s.statusBarColor.startsWith('#') ? s.statusBarColor : new vscode.ThemeColor(s.statusBarColor);
+  const status = service?.status === 'failed' || state?.status === 'failed' ? 'failed'
+    : service?.status === 'starting' || (!service && state?.status === 'running') ? 'running'
+    : undefined;
+  item.backgroundColor = stateBackground(status)
+    ?? (s.statusBarBackground ? new vscode.ThemeColor(`statusBarItem.${s.statusBarBackground}Background`) : undefined);
+  const summary = secretVault?.redact(commandSummary(s)) ?? commandSummary(s);
+  let tooltip = service
+    ? `${s.label} — ${summary}\n${vscode.l10n.t('Service: {0}', summarizeServiceState(service))}`
+    : state
+      ? `${s.label} — ${summary}\n${describeRunState(state)}`
+      : `${s.label} — ${summary}`;
+  if (locked) tooltip += `\n${LOCKED_NOTICE}`;
+  if (!terminals?.terminalsOf(s.key).length) {
+    item.tooltip = tooltip;
+    return;
+  }
+  // Status bar items have no context menu: terminal actions are tooltip links
+  const actions: [string, string][] = [
+    ['revealTerminal', vscode.l10n.t('Show')],
+    ['stopShortcut', vscode.l10n.t('Stop')],
+    ['restartShortcut', vscode.l10n.t('Restart')],
+    ['killTerminal', vscode.l10n.t('Close Terminal')]
+  ];
+  const args = encodeURIComponent(JSON.stringify([s.key]));
+  const markdown = new vscode.MarkdownString();
+  markdown.isTrusted = { enabledCommands: actions.map(([command]) => `terminalShortcuts.${command}`) };
+  markdown.appendText(tooltip);
+  markdown.appendMarkdown(`\n\n${actions.map(([command, title]) => `[${title}](command:terminalShortcuts.${command}?${args})`).join(' · ')}`);
+  item.tooltip = markdown;
+}
+
+interface RunOptions {
+  wait?: boolean; // wait for the command to finish (sequence steps); services: until ready
+  resolver?: VariableResolver; // shared by the steps of a sequence
+  nested?: boolean; // step of an enclosing sequence: it reports failures itself
+  dependents?: string[]; // keys of the shortcuts waiting for this service (dependsOn cycles)
+  args?: ArgValues; // answers to the shortcut's args, else they are asked
+  overrides?: VariableOverrides; // fixed variable values (API, links)
+}
+
+// Single entry point for simple and composite (steps) shortcuts. Without
+// options.wait it returns as soon as the command is started ('sent').
+async function runShortcut(shortcut: LoadedShortcut, options: RunOptions = {}): Promise<RunOutcome> {
+  if (!await ensureApproved(shortcut)) return { status: 'cancelled' };
+  let resolver = options.resolver ?? new VariableResolver(inputsFor(shortcut), shortcut.folder, secretVault);
+  if (options.overrides) resolver = resolver.withOverrides(options.overrides);
+  if (shortcut.args?.length) {
+    const values = await askArgs(shortcut, options.args);
+    if (!values) return { status: 'cancelled' };
+    resolver = resolver.withArgs(argSubstitutions(shortcut.args, values));
+  }
+  if (!await startDependencies(shortcut, options.dependents ?? [])) return { status: 'cancelled' };
+  if (shortcut.steps && shortcut.steps.length) {
+    const sequence = runSequence(shortcut, resolver, options);
+    if (options.wait) return sequence;
+    sequence.catch(reportError);
+    return { status: 'sent' };
+  }
+  const s = await resolveOrReport(forPlatform(shortcut), resolver);
+  if (!s) return { status: 'cancelled' };
+  const command = commandText(s.command);
+  if (!await guardCommand(shortcut.label, guardedText(s, command), shortcut.confirm)) return { status: 'cancelled' };
+  const acquired = await acquireTerminal(s, shortcut.key, shortcut.folder);
+  if (!acquired) return { status: 'cancelled' };
+  await recordRun(shortcut, options);
+  const { terminal, created } = acquired;
+  if (s.sendEnter === false) {
+    terminal.show(false);
+    typeCommand(terminal, command);
+    return { status: 'sent' };
+  }
+  // Services run in a hidden terminal (Reveal terminal shows it)
+  if (!s.background) terminal.show(s.focus !== false);
+  const completion = trackExecution({
+    key: shortcut.key,
+    label: shortcut.label,
+    command,
+    cwd: resolveCwd(s.cwd, shortcut.folder),
+    env: s.recordedEnv,
+    terminal,
+    created,
+    service: s.background ? services!.start(shortcut.key, terminal, s) : undefined
+  });
+  if (s.background && options.wait) {
+    completion.catch(reportError);
+    return await awaitService(shortcut) ? { status: 'exited', exitCode: 0 } : { status: 'cancelled' };
+  }
+  if (options.wait) return completion;
+  completion.catch(reportError);
+  return { status: 'sent' };
+}
+
+// Frecency and Run Last Shortcut count the runs started by the user: not the
+// steps of a sequence nor the services started as dependencies
+async function recordRun(shortcut: LoadedShortcut, options: RunOptions) {
+  if (!options.nested && !options.dependents) await usage?.recordRun(shortcut);
+}
+
+// Runs by key or id; undefined when there is no such shortcut
+async function runRequest(request: RunShortcutRequest): Promise<RunOutcome | undefined> {
+  const s = findShortcut(request.id);
+  if (!s) return undefined;
+  return runShortcut(s, { args: request.args, overrides: request.variables, wait: request.wait });
+}
+
+// A vscode:// link asks to run a shortcut: show what will run before anything is sent
+async function confirmExternalRun(s: LoadedShortcut, request: RunShortcutRequest): Promise<boolean> {
+  const given = [
+    ...Object.entries(request.args ?? {}).map(([name, value]) => `\${arg:${name}} = ${value}`),
+    ...Object.entries(request.variables ?? {}).map(([name, value]) => `\${${name}} = ${value}`)
+  ];
+  const run = vscode.l10n.t('Run');
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('A link asks to run “{0}”.', s.label),
+    { modal: true, detail: [commandSummary(s), ...given].join('\n') },
+    run
+  );
+  return choice === run;
+}
+
+// Answers to the shortcut's args: the given ones (completed with the defaults) or
+// asked in a form prefilled with the last run's. Remembered for the next run.
+async function askArgs(shortcut: LoadedShortcut, given?: ArgValues): Promise<ArgValues | undefined> {
+  const args = shortcut.args!;
+  let values: ArgValues | undefined;
+  try {
+    values = given
+      ? completeArgs(args, given)
+      : await collectArgs(shortcut.label, args, argStore!.last(shortcut.key) ?? {}, name => argStore!.recent(shortcut.key, name), shortcut.folder);
+  } catch (e) {
+    if (!(e instanceof ArgValidationError)) throw e;
+    vscode.window.showErrorMessage(vscode.l10n.t('{0}: invalid argument ({1}).', shortcut.label, e.message));
+    return undefined;
+  }
+  if (values) await argStore!.remember(shortcut.key, values);
+  return values;
+}
+
+// Starts the services the shortcut depends on (unless running) and waits until they are ready
+async function startDependencies(shortcut: LoadedShortcut, dependents: string[]): Promise<boolean> {
+  const ids = typeof shortcut.dependsOn === 'string' ? [shortcut.dependsOn] : shortcut.dependsOn ?? [];
+  const chain = [...dependents, shortcut.key];
+  for (const id of ids) {
+    const service = shortcuts.find(x => x.id === id && x.folder === shortcut.folder) ?? findShortcut(id);
+    if (!service?.background) {
+      vscode.window.showErrorMessage(vscode.l10n.t('{0}: dependsOn "{1}" does not name a "background" shortcut.', shortcut.label, id));
+      return false;
+    }
+    if (chain.includes(service.key)) {
+      vscode.window.showErrorMessage(vscode.l10n.t('{0}: circular dependency ({1}).', shortcut.label, [...chain, service.key].join(' → ')));
+      return false;
+    }
+    if (!services!.isRunning(service.key)) {
+      const outcome = await runShortcut(service, { dependents: chain });
+      if (outcome.status === 'cancelled') return false;
+    }
+    if (!await awaitService(service)) return false;
+  }
+  return true;
+}
+
+// Waits (with a cancellable notification) until the service is ready
+async function awaitService(service: LoadedShortcut): Promise<boolean> {
+  if (services!.get(service.key)?.status === 'ready') return true;
+  const ready = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Waiting for “{0}”…', service.label), cancellable: true },
+    (_progress, token) => services!.waitUntilReady(service.key, token)
+  );
+  if (!ready) {
+    const state = services!.get(service.key);
+    const reveal = vscode.l10n.t('Show Terminal');
+    vscode.window.showErrorMessage(vscode.l10n.t('“{0}” is not ready ({1}).', service.label, state ? summarizeServiceState(state) : vscode.l10n.t('not started')), reveal).then(choice => {
+      if (choice) terminals!.terminalsOf(service.key).pop()?.show(false);
+    });
+  }
+  return ready;
+}
+
+interface TrackedRun {
+  key: string; // shortcut whose run state is updated
+  label: string;
+  command: string; // resolved; one line per command
+  cwd?: string;
+  env?: EnvMap; // recorded in history: envFile values are left out
+  terminal: vscode.Terminal;
+  created: boolean;
+  service?: ServiceRun; // background shortcut: output and exit feed its readiness
+}
+
+// Executes through shell integration when the terminal has it, recording the
+// run state (unless the caller owns it, e.g. a sequence), output and history
+async function trackExecution(run: TrackedRun, ownState = true): Promise<RunOutcome> {
+  if (ownState) runStates.start(run.key);
+  // Secret values are stored and shown as ${secret:NAME}
+  const redact = (text: string) => secretVault?.redact(text) ?? text;
+  const historyId = runHistory?.start({
+    shortcutKey: run.key,
+    label: run.label,
+    command: redact(run.command),
+    cwd: run.created ? run.cwd : (run.terminal.shellIntegration?.cwd?.fsPath ?? run.cwd),
+    env: run.env && Object.fromEntries(Object.entries(run.env).map(([k, v]) => [k, redact(v)])),
+    terminalName: run.terminal.name
+  });
+  const runId = runEvents.start(run.key, run.label, redact(run.command));
+  const redactor = secretVault?.redactor();
+  const record = (shown: string) => {
+    if (!shown) return;
+    runStates.appendOutput(run.key, shown);
+    if (historyId) runHistory?.appendOutput(historyId, shown);
+  };
+  const onOutput = (data: string) => {
+    record(redactor ? redactor.push(data) : data);
+    run.service?.output(data);
+  };
+  // Stop cancels the wait when the shell does not report the end
+  const cancellation = new vscode.CancellationTokenSource();
+  const waits = pendingWaits.get(run.key) ?? new Set();
+  pendingWaits.set(run.key, waits.add(cancellation));
+  // Lines run one after another in the same terminal; a failure stops the rest
+  let outcome: RunOutcome = { status: 'sent' };
+  try {
+    for (const [i, line] of commandLines(run.command).entries()) {
+      outcome = await executeAndWait(run.terminal, line, {
+        shellIntegrationTimeoutMs: run.created && i === 0 ? undefined : 0,
+        onOutput,
+        token: cancellation.token
+      });
+      if (isFailure(outcome) || outcome.status === 'cancelled') break;
+    }
+  } finally {
+    waits.delete(cancellation);
+    cancellation.dispose();
+  }
+  if (redactor) record(redactor.flush());
+  if (outcome.status === 'exited') run.service?.exited(outcome.exitCode);
+  if (ownState) runStates.finish(run.key, outcome);
+  if (historyId) runHistory?.finish(historyId, outcome);
+  runEvents.finish(runId, outcome);
+  return outcome;
+}
+
+// sendEnter: false. The command waits at the prompt for the user to review;
+// several lines are pasted at once so that none of them runs.
+function typeCommand(terminal: vscode.Terminal, command: string) {
+  if (command.includes('\n')) pasteToTerminal(terminal, command);
+  else terminal.sendText(command, false);
+}
+
+// Name then value (never shown). Returns the name, for the manager's env rows.
+async function setSecret(): Promise<string | undefined> {
+  const names = secretVault!.names();
+  const name = (await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Secret name, used as ${secret:NAME} in command or env'),
+    placeHolder: names.length ? vscode.l10n.t('Existing: {0}', names.join(', ')) : 'GITHUB_TOKEN',
+    ignoreFocusOut: true,
+    validateInput: v => isValidSecretName(v.trim()) ? undefined : vscode.l10n.t('Letters, digits, “_”, “.” or “-”, not starting with a digit.')
+  }))?.trim();
+  if (!name) return undefined;
+  const value = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Value of {0} (stored in the system keychain, never in the settings)', name),
+    password: true,
+    ignoreFocusOut: true
+  });
+  if (value === undefined) return undefined;
+  await secretVault!.set(name, value);
+  vscode.window.setStatusBarMessage(vscode.l10n.t('$(key) Secret {0} saved', name), 3000);
+  return name;
+}
+
+async function clearSecret() {
+  const names = secretVault!.names();
+  if (!names.length) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No secret saved.'));
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(
+    names.map(name => ({ label: name, description: `\${secret:${name}}` })),
+    { placeHolder: vscode.l10n.t('Secrets to delete'), canPickMany: true }
+  );
+  for (const item of picked ?? []) await secretVault!.delete(item.label);
+}
+
+// Sends the recorded command again, with the same terminal name, cwd and env
+async function rerunHistoryEntry(entry: HistoryEntry) {
+  const s = shortcuts.find(x => x.key === entry.shortcutKey);
+  // Restricted mode: the recorded command runs only while its shortcut's sources are approved
+  if (!vscode.workspace.isTrusted && !s) {
+    vscode.window.showWarningMessage(vscode.l10n.t('“{0}” no longer exists: in restricted mode, its run cannot be started again.', entry.label));
+    return;
+  }
+  if (s && !await ensureApproved(s)) return;
+  if (!await guardCommand(entry.label, entry.command)) return;
+  let command: string;
+  let env: EnvMap | undefined;
+  try {
+    command = await secretVault!.reveal(entry.command);
+    env = entry.env && Object.fromEntries(await Promise.all(Object.entries(entry.env).map(async ([k, v]) => [k, await secretVault!.reveal(v)])));
+  } catch (e) {
+    if (!(e instanceof SecretNotFoundError)) throw e;
+    vscode.window.showErrorMessage(`${entry.label}: ${e.message}`);
+    return;
+  }
+  // envFile values are not in the history: read the files again
+  let terminalEnv = env;
+  if (s?.envFile) {
+    try {
+      const fromFiles = await readEnvFiles(envFilesOf(s), new VariableResolver(inputsFor(s), s.folder, secretVault));
+      if (!fromFiles) return;
+      terminalEnv = { ...fromFiles, ...env };
+    } catch (e) {
+      if (!(e instanceof VariableResolutionError)) throw e;
+      vscode.window.showErrorMessage(`${entry.label}: ${e.message}`);
+      return;
+    }
+  }
+  const acquired = await acquireTerminal({
+    id: entry.shortcutKey,
+    label: entry.label,
+    command,
+    terminalName: entry.terminalName,
+    cwd: entry.cwd,
+    env: terminalEnv,
+    instancePolicy: s ? instancePolicyOf(s) : undefined
+  }, entry.shortcutKey);
+  if (!acquired) return;
+  const { terminal, created } = acquired;
+  terminal.show(false);
+  await trackExecution({
+    key: entry.shortcutKey,
+    label: entry.label,
+    command,
+    cwd: entry.cwd,
+    env,
+    terminal,
+    created
+  });
+}
+
+async function runSequence(shortcut: LoadedShortcut, resolver: VariableResolver, options: RunOptions): Promise<RunOutcome> {
+  const find = (id: string, from: LoadedShortcut) =>
+    shortcuts.find(x => x.id === id && x.folder === from.folder) ?? findShortcut(id);
+  if (!options.nested) {
+    try {
+      checkSequence(shortcut, find);
+    } catch (e) {
+      if (e instanceof SequenceError) {
+        vscode.window.showErrorMessage(`${shortcut.label}: ${e.message}`);
+        return { status: 'cancelled' };
+      }
+      throw e;
+    }
+  }
+  if (shortcut.confirm && !await confirmRun(shortcut.label, commandSummary(shortcut), shortcut.confirm)) {
+    return { status: 'cancelled' };
+  }
+  // cwd/env of the sequence apply to its inline steps
+  const base = await resolveOrReport({ ...forPlatform(shortcut), command: '' }, resolver);
+  if (!base) return { status: 'cancelled' };
+  await recordRun(shortcut, options);
+  runStates.start(shortcut.key);
+  const result = await runSteps(shortcut, {
+    find,
+    runShortcut: (target) => runShortcut(target, {
+      wait: true,
+      nested: true,
+      resolver: resolver.derive(inputsFor(target), target.folder)
+    }),
+    runCommand: async (command, lane) => {
+      const resolved = await resolveOrReport({ ...shortcut, command }, resolver);
+      if (!resolved || !await guardCommand(shortcut.label, guardedText(base, commandText(resolved.command)))) return { status: 'cancelled' };
+      const name = base.terminalName || base.label || base.id;
+      const acquired = await acquireTerminal(base, shortcut.key, shortcut.folder, lane ? `${name} #${lane}` : name);
+      if (!acquired) return { status: 'cancelled' };
+      const { terminal, created } = acquired;
+      terminal.show(base.focus !== false);
+      return trackExecution({
+        key: shortcut.key,
+        label: shortcut.label,
+        command: commandText(resolved.command),
+        cwd: resolveCwd(base.cwd, shortcut.folder),
+        env: base.recordedEnv,
+        terminal,
+        created
+      }, false);
+    }
+  });
+  runStates.finish(shortcut.key, result.ok ? { status: 'exited', exitCode: 0 } : result.outcome);
+  if (result.ok) {
+    if (!options.nested) vscode.window.setStatusBarMessage(vscode.l10n.t('$(check) {0}: done', shortcut.label), 3000);
+    return { status: 'exited', exitCode: 0 };
+  }
+  if (!options.nested) {
+    const { outcome, step } = result;
+    if (outcome.status === 'exited') {
+      vscode.window.showErrorMessage(vscode.l10n.t('{0}: step “{1}” failed (code {2}).', shortcut.label, step, String(outcome.exitCode)));
+    } else if (outcome.status === 'sent') {
+      vscode.window.showWarningMessage(vscode.l10n.t('{0}: stopped after “{1}”, the terminal’s shell integration is unavailable (exit code unknown).', shortcut.label, step));
+    }
+  }
+  return result.outcome;
+}
+
+// Workspace-controlled sources a shortcut draws fields from that are not approved.
+// Always empty in a trusted workspace.
+function unapprovedSources(s: LoadedShortcut): string[] {
+  if (vscode.workspace.isTrusted) return [];
+  return s.layers.filter(isWorkspaceLayer).map(layer => sourceKey(layer, s.folder)).filter(key => {
+    const source = workspaceSources.get(key);
+    return !source || !approvals?.isApproved(key, source);
+  });
+}
+
+// Identifies a configuration source across sessions (approvals)
+function sourceKey(layer: ConfigLayer, folder?: vscode.WorkspaceFolder): string {
+  return layer === 'workspace' ? `workspace:${workspaceScope()}` : `${layer}:${folder?.uri.toString() ?? ''}`;
+}
+
+// Restricted mode: offers to approve the exact commands of the shortcut's
+// workspace sources (or to manage trust) before anything runs
+async function ensureApproved(s: LoadedShortcut): Promise<boolean> {
+  const pending = unapprovedSources(s);
+  if (!pending.length) return true;
+  const entries = pending.flatMap(key => {
+    const source = workspaceSources.get(key);
+    return source ? [{ key, source }] : [];
+  });
+  const detail = entries
+    .map(({ source }) => `${source.label}:\n${source.commands.map(c => `  ${JSON.stringify(c)}`).join('\n')}`)
+    .join('\n\n');
+  const approve = vscode.l10n.t('Approve These Commands');
+  const manage = vscode.l10n.t('Manage Trust…');
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('“{0}” is defined by this workspace, opened in restricted mode.', s.label),
+    {
+      modal: true,
+      detail: vscode.l10n.t('Approve the commands below to run them without trusting the folder. Any change will ask for a new approval.\n\n{0}', detail)
+    },
+    ...(entries.length === pending.length ? [approve] : []),
+    manage
+  );
+  if (choice === manage) {
+    await vscode.commands.executeCommand('workbench.trust.manage');
+    return false;
+  }
+  if (choice !== approve) return false;
+  await approvals!.approve(entries);
+  treeProvider?.refresh();
+  for (const key of statusBarItems.keys()) refreshStatusBarItem(key);
+  return true;
+}
+
+// Deny patterns block the command; warn patterns and `confirm` ask first.
+// Workspace settings can add patterns but not remove the user's.
+async function guardCommand(label: string, command: string, confirm?: boolean | string): Promise<boolean> {
+  // Matched on the resolved command, shown with ${secret:NAME}
+  const shown = secretVault?.redact(command) ?? command;
+  const deny = guardPatterns('denyPatterns');
+  const denied = matchPattern(command, deny);
+  if (denied) {
+    await vscode.window.showErrorMessage(
+      vscode.l10n.t('{0}: command blocked by the pattern “{1}” (terminalShortcuts.guard.denyPatterns).', label, denied),
+      { modal: true, detail: shown }
+    );
+    return false;
+  }
+  const warned = matchPattern(command, guardPatterns('warnPatterns'));
+  if (warned) {
+    const message = vscode.l10n.t('{0}: the command contains “{1}”. Run it?', label, warned);
+    return confirmRun(label, typeof confirm === 'string' ? `${confirm}\n\n${shown}` : shown, message);
+  }
+  return confirm ? confirmRun(label, shown, confirm) : true;
+}
+
+// What the guard checks: the shell a new terminal starts (its arguments can
+// run commands too), then the command
+function guardedText(s: TerminalShortcutConfig, command: string): string {
+  let shell: ShellOptions = {};
+  try {
+    shell = shellOptions(s);
+  } catch (e) {
+    if (!(e instanceof TerminalProfileError)) throw e;
+    // reported when the terminal is created
+  }
+  if (!shell.shellPath) return command;
+  const args = typeof shell.shellArgs === 'string' ? [shell.shellArgs] : shell.shellArgs ?? [];
+  return `${[shell.shellPath, ...args].join(' ')}\n${command}`;
+}
+
+function guardPatterns(name: 'denyPatterns' | 'warnPatterns'): string[] {
+  const inspected = vscode.workspace.getConfiguration('terminalShortcuts.guard').inspect<string[]>(name);
+  const values = [inspected?.globalValue ?? inspected?.defaultValue, inspected?.workspaceValue, inspected?.workspaceFolderValue];
+  return Array.from(new Set(values.flatMap(v => asArray(v)).filter(p => typeof p === 'string')));
+}
+
+// Modal showing what will run; `confirm` is true or a custom message
+async function confirmRun(label: string, detail: string, confirm: boolean | string): Promise<boolean> {
+  const message = typeof confirm === 'string' ? confirm : vscode.l10n.t('Run “{0}”?', label);
+  const run = vscode.l10n.t('Run');
+  const choice = await vscode.window.showWarningMessage(message, { modal: true, detail }, run);
+  return choice === run;
+}
+
+interface ResolvedShortcut extends TerminalShortcutConfig {
+  recordedEnv?: EnvMap; // env without the envFile values: dotenv files hold tokens
+}
+
+// Undefined when an input was cancelled or a variable could not be resolved (error shown)
+async function resolveOrReport(shortcut: TerminalShortcutConfig, resolver: VariableResolver): Promise<ResolvedShortcut | undefined> {
+  try {
+    const s = await resolveShortcutVariables(shortcut, resolver);
+    if (!s || !shortcut.envFile) return s && { ...s, recordedEnv: s.env };
+    const fromFiles = await readEnvFiles(envFilesOf(shortcut), resolver);
+    return fromFiles && { ...s, env: { ...fromFiles, ...s.env }, recordedEnv: s.env };
+  } catch (e) {
+    if (e instanceof VariableResolutionError) {
+      vscode.window.showErrorMessage(`${shortcut.label}: ${e.message}`);
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+function envFilesOf(s: TerminalShortcutConfig): string[] {
+  return typeof s.envFile === 'string' ? [s.envFile] : s.envFile ?? [];
+}
+
+function terminalNameOf(s: TerminalShortcutConfig): string {
+  return s.terminalName || s.label || s.id;
+}
+
+function instancePolicyOf(s: TerminalShortcutConfig): InstancePolicy {
+  if (s.instancePolicy) return s.instancePolicy;
+  if (s.reuse === false) return 'always-new';
+  return s.background ? 'refuse-if-running' : 'reuse-if-idle';
+}
+
+// Terminal for a run of shortcut `key`, following its instancePolicy. Only the
+// terminals created for that shortcut are reused. Undefined when refused.
+async function acquireTerminal(s: TerminalShortcutConfig, key: string, folder?: vscode.WorkspaceFolder, name = terminalNameOf(s)): Promise<{ terminal: vscode.Terminal; created: boolean } | undefined> {
+  const policy = instancePolicyOf(s);
+  const existing = policy === 'always-new' ? undefined : terminals!.findForRun(key, name);
+  // A running service is busy even without shell integration
+  const busy = existing && (terminals!.isBusy(existing) || (s.background === true && services!.isRunning(key)));
+  if (existing && !busy) return { terminal: existing, created: false };
+  if (existing && policy === 'refuse-if-running') {
+    const reveal = vscode.l10n.t('Show Terminal');
+    const restart = vscode.l10n.t('Restart');
+    const choice = await vscode.window.showWarningMessage(vscode.l10n.t('“{0}” is already running.', s.label), reveal, restart);
+    if (choice === reveal) existing.show(false);
+    if (choice !== restart) return undefined;
+  }
+  if (existing && policy !== 'reuse-if-idle') {
+    // The old run's exit (130 after Ctrl+C) must not mark the service failed
+    services?.requestStop(key);
+    if (await terminals!.interrupt(existing)) return { terminal: existing, created: false };
+    existing.dispose();
+  }
+  let shell: ShellOptions;
+  try {
+    shell = shellOptions(s);
+  } catch (e) {
+    if (!(e instanceof TerminalProfileError)) throw e;
+    vscode.window.showErrorMessage(`${s.label}: ${e.message}`);
+    return undefined;
+  }
+  const terminal = vscode.window.createTerminal({
+    name,
+    cwd: resolveCwd(s.cwd, folder),
+    env: shell.env || s.env ? { ...shell.env, ...s.env } : undefined,
+    shellPath: shell.shellPath,
+    shellArgs: shell.shellArgs,
+    location: resolveTerminalLocation(s),
+    hideFromUser: s.background === true
+  });
+  terminals!.register(terminal, key, name);
+  return { terminal, created: true };
+}
+
+// Open terminals of the shortcut (undefined, message shown, when there are none)
+function ownedTerminals(s: LoadedShortcut): vscode.Terminal[] | undefined {
+  const owned = terminals!.terminalsOf(s.key);
+  if (owned.length) return owned;
+  vscode.window.showInformationMessage(vscode.l10n.t('No open terminal for “{0}”.', s.label));
+  return undefined;
+}
+
+// Services flagged autoStart, once per session. Skipped when the service still
+// has a terminal (kept across a reload) or waits for approval in restricted mode.
+function autoStartServices() {
+  for (const s of shortcuts) {
+    if (!s.background || !s.autoStart || autoStarted.has(s.key)) continue;
+    if (services!.isRunning(s.key) || terminals!.terminalsOf(s.key).length || unapprovedSources(s).length) continue;
+    autoStarted.add(s.key);
+    runShortcut(s).catch(reportError);
+  }
+}
+
+// Errors of work started without waiting for it (runs, service starts)
+function reportError(e: unknown) {
+  vscode.window.showErrorMessage(vscode.l10n.t('Terminal AI Shortcuts: {0}', e instanceof Error ? e.message : String(e)));
+}
+
+// Status bar: the services and their state, then the actions of the picked one
+async function showServices() {
+  const list = shortcuts.filter(s => s.background);
+  const picked = await vscode.window.showQuickPick(list.map(s => {
+    const state = services!.get(s.key);
+    return {
+      label: `$(${serviceStateIcon(state)?.id ?? 'circle-outline'}) ${s.label}`,
+      description: state ? summarizeServiceState(state) : vscode.l10n.t('not started'),
+      shortcut: s
+    };
+  }), { placeHolder: vscode.l10n.t('Choose a service') });
+  if (!picked) return;
+  const s = picked.shortcut;
+  const actions = services!.isRunning(s.key)
+    ? [
+      { label: vscode.l10n.t('$(terminal) Show Terminal'), command: 'terminalShortcuts.revealTerminal' },
+      { label: vscode.l10n.t('$(debug-stop) Stop'), command: 'terminalShortcuts.stopShortcut' },
+      { label: vscode.l10n.t('$(debug-restart) Restart'), command: 'terminalShortcuts.restartShortcut' },
+      { label: vscode.l10n.t('$(output) Show Last Output'), command: 'terminalShortcuts.showLastOutput' }
+    ]
+    : [
+      { label: vscode.l10n.t('$(play) Start'), command: 'terminalShortcuts.runShortcut' },
+      { label: vscode.l10n.t('$(output) Show Last Output'), command: 'terminalShortcuts.showLastOutput' }
+    ];
+  const action = await vscode.window.showQuickPick(actions, { placeHolder: s.label });
+  if (action) await vscode.commands.executeCommand(action.command, s.key);
+}
+
+const STOP_GRACE_MS = 3000;
+
+// Ctrl+C in the busy terminals of the shortcut; all of them when the state is
+// unknown (no shell integration)
+function stopShortcut(s: LoadedShortcut) {
+  const owned = ownedTerminals(s);
+  if (!owned) return;
+  services?.requestStop(s.key);
+  const busy = owned.filter(t => terminals!.isBusy(t));
+  (busy.length ? busy : owned).forEach(t => t.sendText('\x03', false));
+  // Runs whose end the shell has not reported by then are no longer awaited
+  const waits = pendingWaits.get(s.key);
+  const stopped = [...waits ?? []];
+  if (stopped.length) setTimeout(() => stopped.filter(w => waits!.has(w)).forEach(w => w.cancel()), STOP_GRACE_MS);
+}
+
+// Folder shortcuts run in their folder by default; relative cwd is resolved against it
+function resolveCwd(cwd: string | undefined, folder?: vscode.WorkspaceFolder): string | undefined {
+  if (!folder) return cwd;
+  if (!cwd) return folder.uri.fsPath;
+  return path.isAbsolute(cwd) ? cwd : vscode.Uri.joinPath(folder.uri, cwd).fsPath;
+}
+
+// Inputs declared next to the shortcut take precedence over global ones
+function inputsFor(s: { folder?: vscode.WorkspaceFolder }): ShortcutInputConfig[] {
+  return [
+    ...shortcutInputs.filter(i => i.folder && i.folder === s.folder),
+    ...shortcutInputs.filter(i => !i.folder)
+  ];
+}
+
+function resolveTerminalLocation(s: TerminalShortcutConfig): vscode.TerminalLocation | vscode.TerminalEditorLocationOptions {
+  if (s.location === 'panel') return vscode.TerminalLocation.Panel;
+  const col = toViewColumn(s.viewColumn);
+  return { viewColumn: col, preserveFocus: s.focus === false };
+}
+
+function toViewColumn(n?: number): vscode.ViewColumn {
+  switch (n) {
+    case 2: return vscode.ViewColumn.Two;
+    case 3: return vscode.ViewColumn.Three;
+    default: return vscode.ViewColumn.Active;
+  }
+}
+
+async function promptAndCreateGlobalShortcut(): Promise<TerminalShortcutConfig | undefined> {
+  const label = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Shortcut label'), value: 'My Shortcut', ignoreFocusOut: true });
+  if (!label) return undefined;
+  const command = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Command to run'), placeHolder: vscode.l10n.t('e.g. claude --dangerously-skip-permissions'), ignoreFocusOut: true });
+  if (!command) return undefined;
+  const defaultId = label.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9\-_.]/g, '');
+  const id = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Identifier (unique)'), value: defaultId || 'shortcut', ignoreFocusOut: true });
+  if (!id) return undefined;
+  const terminalName = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Terminal name (optional)'), value: label, ignoreFocusOut: true });
+  const showInStatus = await vscode.window.showQuickPick([
+    { label: vscode.l10n.t('Yes'), value: true },
+    { label: vscode.l10n.t('No'), value: false }
+  ], { placeHolder: vscode.l10n.t('Show in the status bar?'), ignoreFocusOut: true });
+  const where = await vscode.window.showQuickPick([
+    { label: vscode.l10n.t('Editor (main area)'), value: 'editor' as const },
+    { label: vscode.l10n.t('Panel (bottom)'), value: 'panel' as const }
+  ], { placeHolder: vscode.l10n.t('Open the terminal where?'), ignoreFocusOut: true });
+  const codicon = await vscode.window.showInputBox({ prompt: vscode.l10n.t('Codicon icon (optional, e.g. robot, rocket, tools)'), value: 'terminal', ignoreFocusOut: true });
+
+  const newShortcut: TerminalShortcutConfig = {
+    id,
+    label,
+    command,
+    terminalName: terminalName || undefined,
+    reuse: true,
+    focus: true,
+    statusBar: showInStatus?.value ?? false,
+    codicon: (codicon && codicon.trim()) ? codicon.trim() : 'terminal',
+    location: where?.value ?? 'editor'
+  };
+  const ok = await upsertGlobalShortcut(newShortcut);
+  return ok ? newShortcut : undefined;
+}
+
+async function upsertGlobalShortcut(shortcut: TerminalShortcutConfig): Promise<boolean> {
+  const s = toShortcutConfig(shortcut);
+  const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
+  // User layer only: defaults and workspace values stay in their own layers
+  const current = [...(cfg.inspect<TerminalShortcutConfig[]>('commands')?.globalValue ?? [])];
+  const idx = current.findIndex(x => x.id === s.id);
+  if (idx >= 0) current[idx] = s; else current.push(s);
+  try {
+    await cfg.update('commands', current, vscode.ConfigurationTarget.Global);
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not update the user settings to save the shortcut.'));
+    return false;
+  }
+}
+
+function workspaceScope(): string {
+  return (vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.toString() ?? '';
+}
+
+// Asks for a chord, checks it against keybindings.json and writes the binding
+// there (args: the shortcut id) and in the shortcut's `keybinding` field.
+// An empty chord removes both.
+async function assignKeybinding(s: LoadedShortcut): Promise<boolean> {
+  const current = await keybindings!.get(s.key) ?? s.keybinding;
+  const input = await vscode.window.showInputBox({
+    title: vscode.l10n.t('Key Binding — {0}', s.label),
+    prompt: vscode.l10n.t('E.g. ctrl+alt+b, or two chords: ctrl+k ctrl+b. Leave empty to remove the key binding. Conflicts are only checked against your keybindings.json, not the default key bindings.'),
+    value: current ?? '',
+    ignoreFocusOut: true,
+    validateInput: v => !v.trim() || normalizeChord(v) ? undefined : vscode.l10n.t('Invalid key binding (modifiers: ctrl, shift, alt, cmd, win, meta).')
+  });
+  if (input === undefined) return false;
+  const key = input.trim() ? normalizeChord(input) : undefined;
+  if (key) {
+    const conflicts = await keybindings!.conflicts(key, s.key);
+    if (conflicts.length) {
+      const list = conflicts.map(c => c.when ? `${c.command} (when: ${c.when})` : c.command).join('\n');
+      const choice = await vscode.window.showWarningMessage(
+        vscode.l10n.t('{0} is already used in keybindings.json:', key),
+        { modal: true, detail: list },
+        vscode.l10n.t('Assign Anyway')
+      );
+      if (!choice) return false;
+    }
+  }
+  if (!await keybindings!.editable()) {
+    await editKeybindingByHand(s, key);
+  } else {
+    try {
+      await keybindings!.set(s.key, key);
+    } catch (e) {
+      if (e instanceof KeybindingsFileError) {
+        vscode.window.showErrorMessage(e.message);
+        return false;
+      }
+      vscode.window.showErrorMessage(vscode.l10n.t('Could not write keybindings.json.'));
+      return false;
+    }
+  }
+  await applyShortcutPatches([{ shortcut: s, patch: { keybinding: key } }], vscode.l10n.t('Could not save the key binding in the shortcut configuration.'));
+  vscode.window.setStatusBarMessage(key ? `${s.label}: ${key}` : vscode.l10n.t('{0}: key binding removed', s.label), 3000);
+  return true;
+}
+
+// The active profile's keybindings.json is unknown: open it (VS Code knows
+// which one) with the entry to paste in the clipboard
+async function editKeybindingByHand(s: LoadedShortcut, key: string | undefined) {
+  await vscode.commands.executeCommand('workbench.action.openGlobalKeybindingsFile');
+  if (key) {
+    await vscode.env.clipboard.writeText(JSON.stringify({ key, command: RUN_COMMAND, args: s.key }));
+    vscode.window.showInformationMessage(vscode.l10n.t('The key binding of “{0}” was copied: paste it into the keybindings.json of your VS Code profile.', s.label));
+  } else {
+    vscode.window.showInformationMessage(vscode.l10n.t('Remove the entries of “{0}” (args "{1}") from the keybindings.json of your VS Code profile.', s.label, s.key));
+  }
+}
+
+type SettingsLayer = 'user' | 'workspace' | 'workspaceFolder';
+
+// Layers backed by settings or files (defaults, detected and provided commands are read-only)
+type WritableLayer = Exclude<ConfigLayer, 'default' | 'detected' | 'provided'>;
+
+// Writable sources defining a shortcut
+function writableSources(s: LoadedShortcut): { layer: WritableLayer; folder?: vscode.WorkspaceFolder }[] {
+  return s.layers.flatMap(layer => layer === 'default' || layer === 'detected' || layer === 'provided' ? [] : [{
+    layer,
+    folder: layer === 'user' || layer === 'workspace' ? undefined : s.folder
+  }]);
+}
+
+// Rewrites terminalShortcuts.commands of one settings scope (unchanged lists are not written)
+async function updateSettingsCommands(layer: SettingsLayer, folder: vscode.WorkspaceFolder | undefined, update: (commands: TerminalShortcutConfig[]) => TerminalShortcutConfig[]) {
+  const cfg = vscode.workspace.getConfiguration('terminalShortcuts', folder?.uri);
+  const inspected = cfg.inspect<TerminalShortcutConfig[]>('commands');
+  const source = layer === 'workspace' ? inspected?.workspaceValue
+    : layer === 'workspaceFolder' ? inspected?.workspaceFolderValue
+    : inspected?.globalValue;
+  const before = JSON.stringify(source ?? []);
+  const next = update(JSON.parse(before));
+  if (JSON.stringify(next) !== before) await cfg.update('commands', next, settingsTarget(layer));
+}
+
+// Rewrites a folder's config file; missing or unparsable files are left alone
+async function updateConfigText(folder: vscode.WorkspaceFolder, layer: FileLayer, update: (text: string) => string) {
+  const found = await readConfigFile(folder, layer);
+  if (!found || !found.config) return;
+  const text = update(found.text);
+  if (text !== found.text) await vscode.workspace.fs.writeFile(found.uri, new TextEncoder().encode(text));
+}
+
+async function updateSource(layer: WritableLayer, folder: vscode.WorkspaceFolder | undefined, update: { settings: (commands: TerminalShortcutConfig[]) => TerminalShortcutConfig[]; text: (text: string) => string }) {
+  if (layer === 'file' || layer === 'local') {
+    if (folder) await updateConfigText(folder, layer, update.text);
+  } else {
+    await updateSettingsCommands(layer, folder, update.settings);
+  }
+}
+
+// Writes field-level changes to the highest layer defining each shortcut: its
+// folder's JSON file, local file or settings scope. Shortcuts that only come
+// from the extension defaults (or another extension) get a partial override in
+// user settings; detected ones are pinned to the folder's file first.
+// An undefined value removes the field.
+async function applyShortcutPatches(patches: ShortcutPatch[], errorMessage: string): Promise<boolean> {
+  try {
+    for (const p of patches) {
+      const top = topLayer(p.shortcut.layers) ?? 'user';
+      if (top === 'detected' && !await pinDetected(p.shortcut)) return false;
+      const layer = top === 'default' || top === 'provided' ? 'user' : top === 'detected' ? 'file' : top;
+      const folder = layer === 'user' || layer === 'workspace' ? undefined : p.shortcut.folder;
+      const patch = overridePatch(p.shortcut, p.patch, layer);
+      await updateSource(layer, folder, {
+        text: text => patchShortcutText(text, p.shortcut.id, patch),
+        settings: commands => {
+          let entry = commands.find(x => x.id === p.shortcut.id) as { [key: string]: unknown } | undefined;
+          if (!entry) {
+            entry = { id: p.shortcut.id };
+            commands.push(entry as unknown as TerminalShortcutConfig);
+          }
+          for (const [field, value] of Object.entries(patch)) {
+            if (value === undefined) delete entry[field]; else entry[field] = value;
+          }
+          return commands;
+        }
+      });
+    }
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(errorMessage);
+    return false;
+  }
+}
+
+// Removing a text field that a lower layer also sets would bring that value
+// back: it is blanked instead
+function overridePatch(s: LoadedShortcut, patch: Partial<TerminalShortcutConfig>, layer: ConfigLayer): Partial<TerminalShortcutConfig> {
+  const result: { [field: string]: unknown } = { ...patch };
+  const current = s as unknown as { [field: string]: unknown };
+  for (const [field, value] of Object.entries(patch)) {
+    const origin = s.origins[field];
+    if (value === undefined && typeof current[field] === 'string' && origin && layerRank(origin) < layerRank(layer)) result[field] = '';
+  }
+  return result as Partial<TerminalShortcutConfig>;
+}
+
+// Removes the shortcut from every source defining it; a shortcut shipped with
+// the extension is hidden with a tombstone in user settings instead, a
+// detected one is added to the discovery exclusions
+async function deleteShortcut(s: LoadedShortcut): Promise<boolean> {
+  try {
+    if (s.layers.includes('detected')) await excludeDetected(s);
+    for (const { layer, folder } of writableSources(s)) {
+      await updateSource(layer, folder, {
+        text: text => removeShortcutText(text, s.id),
+        settings: commands => commands.filter(x => x.id !== s.id)
+      });
+    }
+    if (s.layers.includes('default') || s.layers.includes('provided')) {
+      await updateSettingsCommands('user', undefined, commands => [...commands, { id: s.id, disabled: true } as TerminalShortcutConfig]);
+    }
+    if (await keybindings?.get(s.key)) await keybindings!.set(s.key, undefined);
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(e instanceof KeybindingsFileError ? e.message : vscode.l10n.t('Could not delete “{0}”.', s.label));
+    return false;
+  }
+}
+
+// Renames the shortcut in every source defining it and updates the sequences
+// that reference it (same folder, or everywhere for a shared shortcut) as well
+// as its keybinding
+async function renameShortcut(s: LoadedShortcut, to: string): Promise<boolean> {
+  const from = s.id;
+  if (shortcuts.some(x => x.id === to && x.folder === s.folder)) {
+    vscode.window.showErrorMessage(vscode.l10n.t('The identifier “{0}” is already used.', to));
+    return false;
+  }
+  const renameEntries = (commands: TerminalShortcutConfig[]) => commands.map(c => {
+    const steps = Array.isArray(c.steps) ? renameStepReferences(c.steps, from, to) : undefined;
+    return { ...c, ...(c.id === from ? { id: to } : {}), ...(steps ? { steps } : {}) };
+  });
+  try {
+    const folders = s.folder ? [s.folder] : vscode.workspace.workspaceFolders ?? [];
+    for (const folder of folders) {
+      for (const layer of ['file', 'local'] as FileLayer[]) {
+        await updateConfigText(folder, layer, text => renameShortcutText(text, from, to));
+      }
+      if (vscode.workspace.workspaceFile) await updateSettingsCommands('workspaceFolder', folder, renameEntries);
+    }
+    if (!s.folder || s.layers.some(l => l === 'user' || l === 'workspace' || l === 'default' || l === 'provided')) {
+      await updateSettingsCommands('user', undefined, renameEntries);
+      await updateSettingsCommands('workspace', undefined, renameEntries);
+    }
+    if (s.layers.includes('default') || s.layers.includes('provided')) {
+      // Defaults and provided shortcuts cannot be renamed: copy under the new id, hide the original
+      const original = mergeLayers([
+        { layer: 'provided', commands: await shortcutProviders.provide() },
+        { layer: 'default', commands: asArray(vscode.workspace.getConfiguration('terminalShortcuts').inspect<TerminalShortcutConfig[]>('commands')?.defaultValue) }
+      ]).find(m => m.config.id === from)?.config;
+      await updateSettingsCommands('user', undefined, commands => {
+        const idx = commands.findIndex(c => c.id === to);
+        const copy = { ...original, ...(idx >= 0 ? commands[idx] : {}), id: to } as TerminalShortcutConfig;
+        if (idx >= 0) commands[idx] = copy; else commands.push(copy);
+        return [...commands, { id: from, disabled: true } as TerminalShortcutConfig];
+      });
+    }
+    // Bound to the key: "<folder>:<id>" in multi-root workspaces
+    const toKey = s.key.slice(0, s.key.length - from.length) + to;
+    const key = await keybindings?.get(s.key);
+    if (key) {
+      await keybindings!.set(s.key, undefined);
+      await keybindings!.set(toKey, key);
+    }
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(e instanceof KeybindingsFileError ? e.message : vscode.l10n.t('Could not rename “{0}”.', s.label));
+    return false;
+  }
+}
+
+// Saves the manager's form: changed fields only, written like tree edits
+async function updateShortcut(s: LoadedShortcut, config: TerminalShortcutConfig): Promise<boolean> {
+  // Nothing to patch yet: the edited entry becomes the pinned one
+  if (isDetectedOnly(s)) return upsertWorkspaceShortcut(promoteDetected(config), s.folder);
+  const before = toShortcutConfig(s) as unknown as { [field: string]: unknown };
+  const after = config as unknown as { [field: string]: unknown };
+  const patch: { [field: string]: unknown } = {};
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (field === 'id') continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) patch[field] = after[field];
+  }
+  if (Object.keys(patch).length && !await applyShortcutPatches([{ shortcut: s, patch }], vscode.l10n.t('Could not save “{0}”.', s.label))) {
+    return false;
+  }
+  return config.id === s.id || renameShortcut(s, config.id);
+}
+
+// Manager drag and drop: `s` takes the place of `before` in its group
+async function moveShortcut(s: LoadedShortcut, before: LoadedShortcut): Promise<boolean> {
+  if (multiRoot() && s.folder !== before.folder) {
+    vscode.window.showWarningMessage(vscode.l10n.t('A shortcut cannot be moved to another workspace folder.'));
+    return false;
+  }
+  const scope = multiRoot() ? { folder: before.folder } : undefined;
+  const patches = placeShortcuts(shortcuts, [s], normalizeGroup(before.group), scope, before);
+  return !patches.length || applyShortcutPatches(patches, vscode.l10n.t('Could not save the new order of the shortcuts.'));
+}
+
+// Lists every field of a shortcut with the layer that set it; picking one opens that source
+async function showOrigin(s: LoadedShortcut) {
+  const values = s as unknown as { [field: string]: unknown };
+  const valueOf = (field: string) => {
+    const [name, key] = field.split('.');
+    const value = key ? (values[name] as { [key: string]: unknown } | undefined)?.[key] : values[name];
+    return JSON.stringify(value) ?? '';
+  };
+  const items = Object.entries(s.origins)
+    .sort(([, a], [, b]) => layerRank(b) - layerRank(a))
+    .map(([field, layer]) => ({ label: field, description: LAYER_LABELS[layer], detail: valueOf(field), layer }));
+  const pick = await vscode.window.showQuickPick(items, {
+    title: vscode.l10n.t('{0} — Field Origins', s.label),
+    placeHolder: vscode.l10n.t('Layers: {0}', s.layers.map(l => LAYER_LABELS[l]).join(' → ')),
+    matchOnDescription: true
+  });
+  if (pick) await openLayerSource(pick.layer, s.folder);
+}
+
+async function openLayerSource(layer: ConfigLayer, folder?: vscode.WorkspaceFolder) {
+  switch (layer) {
+    case 'detected':
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'terminalShortcuts.discovery');
+      return;
+    case 'default':
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'terminalShortcuts.commands');
+      return;
+    case 'provided':
+      vscode.window.showInformationMessage(vscode.l10n.t('This value comes from another extension: override it in the settings or a configuration file.'));
+      return;
+    case 'user':
+      await vscode.commands.executeCommand('workbench.action.openSettingsJson');
+      return;
+    case 'workspace':
+      await vscode.commands.executeCommand('workbench.action.openWorkspaceSettingsFile');
+      return;
+    case 'workspaceFolder':
+      await vscode.commands.executeCommand('workbench.action.openFolderSettingsFile', folder?.uri);
+      return;
+    case 'file':
+      await openOrCreateConfig(folder);
+      return;
+    case 'local':
+      await openOrCreateLocalConfig(folder);
+      return;
+  }
+}
+
+// Promotes a detected shortcut into a real entry of its folder's terminal-shortcuts.json
+async function pinDetected(s: LoadedShortcut): Promise<boolean> {
+  return upsertWorkspaceShortcut(promoteDetected(s), s.folder);
+}
+
+// Hides a detected shortcut through terminalShortcuts.discovery.exclude (folder scope)
+async function excludeDetected(s: LoadedShortcut) {
+  const cfg = vscode.workspace.getConfiguration('terminalShortcuts', s.folder?.uri);
+  const inspected = cfg.inspect<string[]>('discovery.exclude');
+  const inFolder = !!vscode.workspace.workspaceFile;
+  const current = (inFolder ? inspected?.workspaceFolderValue : inspected?.workspaceValue) ?? [];
+  if (current.includes(s.id)) return;
+  await cfg.update('discovery.exclude', [...current, s.id], inFolder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace);
+}
+
+function customAgentProfiles(): { [name: string]: AgentProfileConfig } {
+  return vscode.workspace.getConfiguration('terminalShortcuts').get<{ [name: string]: AgentProfileConfig }>('agentProfiles') ?? {};
+}
+
+// Undefined (error shown) when the shortcut names an unknown profile
+function agentProfileOf(s: TerminalShortcutConfig): AgentProfileConfig | undefined {
+  try {
+    return s.agent ? resolveAgentProfile(s.agent, customAgentProfiles()) : undefined;
+  } catch (e) {
+    if (!(e instanceof AgentProfileError)) throw e;
+    vscode.window.showErrorMessage(`${s.label}: ${e.message}`);
+    return undefined;
+  }
+}
+
+// Shell of the terminal the agent runs in: its own shell or profile, else the default one
+function agentShellKind(s: TerminalShortcutConfig): ShellKind {
+  try {
+    return shellKind(shellOptions(forPlatform(s)).shellPath ?? vscode.env.shell);
+  } catch (e) {
+    if (!(e instanceof TerminalProfileError)) throw e;
+    return shellKind(vscode.env.shell); // the run reports the profile
+  }
+}
+
+// Start command of an agent shortcut without `command` (unknown profile: '', reported by the validator)
+function agentCommand(s: TerminalShortcutConfig): string | string[] {
+  try {
+    return agentStartCommand(s, resolveAgentProfile(s.agent!, customAgentProfiles()));
+  } catch {
+    return '';
+  }
+}
+
+// The given agent shortcut, the only one, or a pick (last used first)
+async function pickAgent(arg?: string | ShortcutTreeItem): Promise<LoadedShortcut | undefined> {
+  if (arg) {
+    const s = findShortcut(arg);
+    if (!s?.agent) {
+      vscode.window.showWarningMessage(vscode.l10n.t('Agent shortcut not found: {0}', arg instanceof ShortcutTreeItem ? arg.shortcut.label : arg));
+      return undefined;
+    }
+    return s;
+  }
+  const agents = shortcuts.filter(s => s.agent);
+  if (!agents.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No agent shortcut: add for example "agent": "claude" to a shortcut.'));
+    return undefined;
+  }
+  if (agents.length === 1) return agents[0];
+  agents.sort((a, b) => Number(b.key === lastAgentKey) - Number(a.key === lastAgentKey));
+  const picked = await vscode.window.showQuickPick(
+    agents.map(s => ({ label: s.label, description: s.folder && multiRoot() ? s.folder.name : undefined, detail: commandSummary(s), shortcut: s })),
+    { placeHolder: vscode.l10n.t('Choose an agent') }
+  );
+  return picked?.shortcut;
+}
+
+async function resumeAgent(agent: LoadedShortcut) {
+  const profile = agentProfileOf(agent);
+  if (!profile) return;
+  if (!profile.resume) {
+    vscode.window.showWarningMessage(vscode.l10n.t('{0}: the profile defines no "resume" command.', agent.label));
+    return;
+  }
+  lastAgentKey = agent.key;
+  await runShortcut({ ...forPlatform(agent), command: profile.resume });
+}
+
+// Pastes `text` in the agent's terminal (the one runShortcut created for it),
+// starting the agent first when it has no terminal yet. Shortcuts without
+// `agent` (prompt targets) get an empty profile.
+async function sendToAgent(agent: LoadedShortcut, text: string, options: { submit?: boolean; startWithPrompt?: boolean } = {}) {
+  const profile = agent.agent ? agentProfileOf(agent) : {};
+  if (!profile) return;
+  lastAgentKey = agent.key;
+  let terminal = terminals!.find(agent.key, terminalNameOf(agent));
+  if (!terminal) {
+    // The command line goes through variable resolution: a prompt containing
+    // "${" is pasted instead
+    const withPrompt = options.startWithPrompt && !text.includes('${') ? agentPromptCommand(profile, text, agentShellKind(agent)) : undefined;
+    if (withPrompt) {
+      await runShortcut({ ...forPlatform(agent), command: withPrompt });
+      return;
+    }
+    const outcome = await runShortcut(agent);
+    terminal = terminals!.find(agent.key, terminalNameOf(agent));
+    if (outcome.status === 'cancelled' || !terminal) return;
+    // The start command goes out once the shell is ready; then the agent boots
+    await waitForShellIntegration(terminal);
+    await new Promise(resolve => setTimeout(resolve, readyDelay(profile)));
+  }
+  terminal.show(false);
+  pasteToTerminal(terminal, text, options.submit);
+}
+
+// Paths as seen from the agent's working directory
+function agentRelativePath(agent: LoadedShortcut, uri: vscode.Uri): string {
+  const cwd = resolveCwd(agent.cwd, agent.folder) ?? vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  return cwd ? path.relative(cwd, uri.fsPath) || '.' : uri.fsPath;
+}
+
+async function sendSelectionToAgent(key?: string) {
+  const editor = vscode.window.activeTextEditor;
+  const selections = editor?.selections.filter(sel => !sel.isEmpty) ?? [];
+  if (!editor || !selections.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('Select text in the editor to send to the agent.'));
+    return;
+  }
+  const agent = await pickAgent(key);
+  const profile = agent && agentProfileOf(agent);
+  if (!agent || !profile) return;
+  const reference = fileReference(profile, agentRelativePath(agent, editor.document.uri));
+  // "@src/app.ts#L10-20" then the selected code
+  const text = selections.map(sel => {
+    const lines = sel.start.line === sel.end.line ? `L${sel.start.line + 1}` : `L${sel.start.line + 1}-${sel.end.line + 1}`;
+    return `${reference}#${lines}\n${editor.document.getText(sel)}`;
+  }).join('\n\n');
+  await sendToAgent(agent, `${text}\n`);
+}
+
+async function sendFilesToAgent(uris: vscode.Uri[], key?: string) {
+  if (!uris.length && vscode.window.activeTextEditor?.document.uri.scheme === 'file') {
+    uris = [vscode.window.activeTextEditor.document.uri];
+  }
+  if (!uris.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No file to send to the agent.'));
+    return;
+  }
+  const agent = await pickAgent(key);
+  const profile = agent && agentProfileOf(agent);
+  if (!agent || !profile) return;
+  await sendToAgent(agent, uris.map(uri => fileReference(profile, agentRelativePath(agent, uri))).join(' ') + ' ');
+}
+
+function findPrompt(arg: string | PromptTreeItem): LoadedPrompt | undefined {
+  if (arg instanceof PromptTreeItem) return arg.prompt;
+  return shortcutPrompts.find(p => p.key === arg) ?? shortcutPrompts.find(p => p.name === arg);
+}
+
+async function pickPrompt(): Promise<LoadedPrompt | undefined> {
+  if (!shortcutPrompts.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No prompt saved: use “Add Prompt” or the "prompts" key of terminal-shortcuts.json.'));
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    shortcutPrompts.map(p => ({
+      label: p.name,
+      description: [p.target ? `→ ${p.target}` : undefined, p.folder && multiRoot() ? p.folder.name : undefined].filter(Boolean).join(' · '),
+      detail: p.body.replace(/\s+/g, ' '),
+      prompt: p
+    })),
+    { placeHolder: vscode.l10n.t('Prompt to send'), matchOnDetail: true }
+  );
+  return picked?.prompt;
+}
+
+// Target shortcut of the prompt, preferring one of the prompt's folder; asked when unset
+async function promptTarget(p: LoadedPrompt): Promise<LoadedShortcut | undefined> {
+  if (!p.target) return pickAgent();
+  const target = shortcuts.find(s => s.id === p.target && s.folder === p.folder) ?? shortcuts.find(s => s.id === p.target);
+  if (!target) vscode.window.showWarningMessage(vscode.l10n.t('{0}: target shortcut not found: {1}', p.name, p.target));
+  return target;
+}
+
+// Resolves the placeholders, then pastes the prompt in the target's terminal
+// (started when needed). Workspace prompts are shown first in restricted mode.
+async function sendPrompt(p: LoadedPrompt) {
+  if (!vscode.workspace.isTrusted && isWorkspaceLayer(p.layer)) {
+    const send = vscode.l10n.t('Send');
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t('The prompt “{0}” is defined by this workspace, opened in restricted mode.', p.name),
+      { modal: true, detail: p.body },
+      send
+    );
+    if (choice !== send) return;
+  }
+  const target = await promptTarget(p);
+  if (!target) return;
+  let text: string | undefined;
+  try {
+    text = await resolvePromptBody(p.body, new VariableResolver(inputsFor(p), p.folder ?? target.folder, secretVault), resolveCwd(target.cwd, target.folder));
+  } catch (e) {
+    if (!(e instanceof VariableResolutionError)) throw e;
+    vscode.window.showErrorMessage(`${p.name}: ${e.message}`);
+    return;
+  }
+  if (text === undefined) return; // cancelled
+  await sendToAgent(target, text, { submit: p.submit !== false });
+}
+
+async function addPrompt(): Promise<boolean> {
+  const name = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Prompt name'),
+    validateInput: v => v.trim() ? undefined : vscode.l10n.t('Name required')
+  });
+  if (!name) return false;
+  const body = await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Prompt text'),
+    placeHolder: vscode.l10n.t('Review ${relativeFile}: ${selectedText} — also ${gitDiffStaged}, ${ask:Question}'),
+    validateInput: v => v.trim() ? undefined : vscode.l10n.t('Text required')
+  });
+  if (!body) return false;
+  const targets = [...shortcuts].sort((a, b) => Number(!!b.agent) - Number(!!a.agent));
+  const target = await vscode.window.showQuickPick([
+    { label: vscode.l10n.t('Choose on every send'), id: undefined as string | undefined },
+    ...targets.map(s => ({ label: s.label, description: s.id, id: s.id as string | undefined }))
+  ], { placeHolder: vscode.l10n.t('Target terminal') });
+  if (!target) return false;
+  const scope = await vscode.window.showQuickPick([
+    { label: vscode.l10n.t('Project'), description: '.vscode/terminal-shortcuts.json', value: 'file' as const },
+    { label: vscode.l10n.t('User'), description: LAYER_LABELS.user, value: 'user' as const }
+  ], { placeHolder: vscode.l10n.t('Save the prompt') });
+  if (!scope) return false;
+  const prompt: PromptTemplateConfig = { name: name.trim(), body };
+  if (target.id) prompt.target = target.id;
+  return scope.value === 'user' ? upsertGlobalPrompt(prompt) : upsertWorkspacePrompt(prompt);
+}
+
+async function upsertGlobalPrompt(prompt: PromptTemplateConfig): Promise<boolean> {
+  const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
+  const current = [...(cfg.inspect<PromptTemplateConfig[]>('prompts')?.globalValue ?? [])];
+  const idx = current.findIndex(x => x.name === prompt.name);
+  if (idx >= 0) current[idx] = prompt; else current.push(prompt);
+  try {
+    await cfg.update('prompts', current, vscode.ConfigurationTarget.Global);
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not update the user settings to save the prompt.'));
+    return false;
+  }
+}
+
+async function upsertWorkspacePrompt(prompt: PromptTemplateConfig): Promise<boolean> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No folder open to save in the workspace.'));
+    return false;
+  }
+  const folder = await pickWorkspaceFolder(vscode.l10n.t('Save in which folder?'));
+  if (!folder) return false;
+  const existing = await readConfigFile(folder, 'file');
+  const file = existing?.uri ?? vscode.Uri.joinPath(folder.uri, '.vscode/terminal-shortcuts.json');
+  const current = existing?.text ?? '';
+  if (current.trim() && !existing?.config) {
+    vscode.window.showErrorMessage(vscode.l10n.t('The file {0} has errors: fix them before saving (see Problems).', vscode.workspace.asRelativePath(file)));
+    return false;
+  }
+  try { await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, '.vscode')); } catch {}
+  try {
+    await vscode.workspace.fs.writeFile(file, new TextEncoder().encode(upsertPromptText(current, prompt)));
+    return true;
+  } catch (e) {
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not write the workspace configuration file.'));
+    return false;
+  }
+}
+
+// Copies a shortcut into the user settings, as a copy when the id is taken there
+async function duplicateGlobal(config: TerminalShortcutConfig): Promise<boolean> {
+  const current = vscode.workspace.getConfiguration('terminalShortcuts').inspect<TerminalShortcutConfig[]>('commands')?.globalValue ?? [];
+  const toSave = { ...config };
+  if (current.some(x => x.id === config.id)) {
+    const choice = await vscode.window.showQuickPick([
+      { label: vscode.l10n.t('Overwrite'), value: 'overwrite' },
+      { label: vscode.l10n.t('Create a copy (-global)'), value: 'copy' }
+    ], { placeHolder: vscode.l10n.t('A global shortcut with id "{0}" already exists.', config.id) });
+    if (!choice) return false;
+    if (choice.value === 'copy') {
+      toSave.id = makeUniqueId(`${config.id}-global`, new Set(current.map(x => x.id)));
+    }
+  }
+  const ok = await upsertGlobalShortcut(toSave);
+  if (ok) vscode.window.showInformationMessage(vscode.l10n.t('Shortcut duplicated as global: {0} ({1})', toSave.label, toSave.id));
+  return ok;
+}
+
+// Previews the commands found by an importer and writes the picked ones to the
+// folder's .vscode/terminal-shortcuts.json
+async function importFromWorkspace(): Promise<boolean> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No folder open to import commands.'));
+    return false;
+  }
+  const picked = await vscode.window.showQuickPick(
+    IMPORT_SOURCES.map(source => ({ label: source.label, description: source.files.join(', '), source })),
+    { placeHolder: vscode.l10n.t('Import commands from…') }
+  );
+  if (!picked) return false;
+  const folder = await pickWorkspaceFolder(vscode.l10n.t('Import from which folder?'));
+  if (!folder) return false;
+  const found = await importFromFolder(picked.source, folder);
+  if (!found.length) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No command found ({0}) in {1}.', picked.source.files.join(', '), folder.name));
+    return false;
+  }
+  const visible = shortcuts.filter(s => !s.folder || s.folder === folder);
+  const ids = new Set(visible.map(s => s.id));
+  const commands = new Set(visible.map(s => commandText(s.command)));
+  const items = found.map(config => {
+    const present = commands.has(commandText(config.command));
+    config.id = makeUniqueId(config.id, ids);
+    ids.add(config.id);
+    return { label: config.label, description: commandText(config.command), detail: present ? vscode.l10n.t('{0} — already present', config.id) : config.id, picked: !present, config };
+  });
+  const selection = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: vscode.l10n.t('Commands to add to {0}/.vscode/terminal-shortcuts.json', folder.name)
+  });
+  if (!selection?.length) return false;
+  let count = 0;
+  for (const item of selection) {
+    if (!await upsertWorkspaceShortcut(item.config, folder)) break;
+    count++;
+  }
+  if (count) vscode.window.showInformationMessage(vscode.l10n.t('{0} shortcut(s) imported into {1}.', count, folder.name));
+  return count > 0;
+}
+
+// Standalone file sharing a set of shortcuts, in the terminal-shortcuts.json format
+async function exportShortcuts(selection: LoadedShortcut[]) {
+  if (!selection.length) {
+    const picked = await vscode.window.showQuickPick(
+      shortcuts.map(s => ({ label: s.label, description: commandSummary(s), detail: s.folder?.name, shortcut: s })),
+      { canPickMany: true, placeHolder: vscode.l10n.t('Shortcuts to export') }
+    );
+    if (!picked?.length) return;
+    selection = picked.map(p => p.shortcut);
+  }
+  // Keybindings belong to the user's keybindings.json, not to the shared set
+  const commands = selection.map(s => {
+    const { keybinding, ...config } = toShortcutConfig(s);
+    return config;
+  });
+  const text = JSON.stringify(commands);
+  const inputs = shortcutInputs
+    .filter(i => text.includes(`\${input:${i.id}}`) && selection.some(s => s.folder === i.folder || !i.folder))
+    .map(({ folder, ...input }) => input)
+    .filter((input, idx, all) => all.findIndex(x => x.id === input.id) === idx);
+  const exported: FileConfig = inputs.length ? { commands, inputs } : { commands };
+  const folder = selection.find(s => s.folder)?.folder ?? vscode.workspace.workspaceFolders?.[0];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'terminal-shortcuts.export.json') : undefined,
+    filters: { JSON: ['json'] },
+    saveLabel: vscode.l10n.t('Export')
+  });
+  if (!target) return;
+  try {
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(JSON.stringify(exported, null, 2) + '\n'));
+    vscode.window.showInformationMessage(vscode.l10n.t('{0} shortcut(s) exported to {1}.', commands.length, path.basename(target.fsPath)));
+  } catch {
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not write {0}.', target.fsPath));
+  }
+}
+
+// Merges an exported set into the user settings, the project file or the local file
+async function importSharedFile(): Promise<boolean> {
+  const [file] = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { JSON: ['json'] }, openLabel: vscode.l10n.t('Import') }) ?? [];
+  if (!file) return false;
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(file));
+  } catch {
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not read {0}.', file.fsPath));
+    return false;
+  }
+  const { config, errors } = parseFileConfig(text);
+  const found = Array.isArray(config?.commands) ? config!.commands.filter(c => c && typeof c.id === 'string') : [];
+  if (errors.length || !found.length) {
+    vscode.window.showErrorMessage(vscode.l10n.t('{0} is not a set of shortcuts (JSON object with "commands").', path.basename(file.fsPath)));
+    return false;
+  }
+  const picked = await vscode.window.showQuickPick(
+    found.map(c => ({ label: c.label ?? c.id, description: commandSummary(c), detail: c.id, picked: true, config: c })),
+    { canPickMany: true, placeHolder: vscode.l10n.t('Shortcuts to import') }
+  );
+  if (!picked?.length) return false;
+  const target = await vscode.window.showQuickPick([
+    { label: vscode.l10n.t('Project'), description: '.vscode/terminal-shortcuts.json', value: 'file' as SaveTarget },
+    { label: vscode.l10n.t('Local'), description: LOCAL_CONFIG, value: 'local' as SaveTarget },
+    { label: LAYER_LABELS.user, value: 'user' as SaveTarget }
+  ], { placeHolder: vscode.l10n.t('Import into…') });
+  if (!target) return false;
+  const layer = target.value;
+  let folder: vscode.WorkspaceFolder | undefined;
+  if (layer !== 'user') {
+    folder = await pickWorkspaceFolder(vscode.l10n.t('Import into which folder?'));
+    if (!folder) {
+      if (!vscode.workspace.workspaceFolders?.length) vscode.window.showWarningMessage(vscode.l10n.t('No folder open to save in the workspace.'));
+      return false;
+    }
+  }
+  const existing = layer === 'user'
+    ? vscode.workspace.getConfiguration('terminalShortcuts').inspect<TerminalShortcutConfig[]>('commands')?.globalValue ?? []
+    : (await readConfigFile(folder!, layer))?.config?.commands ?? [];
+  const ids = new Set(existing.map(c => c.id));
+  let commands = picked.map(p => ({ ...p.config }));
+  const conflicts = commands.filter(c => ids.has(c.id));
+  if (conflicts.length) {
+    const choice = await vscode.window.showQuickPick([
+      { label: vscode.l10n.t('Overwrite'), value: 'overwrite' },
+      { label: vscode.l10n.t('Create copies (-import)'), value: 'copy' },
+      { label: vscode.l10n.t('Skip these shortcuts'), value: 'skip' }
+    ], { placeHolder: vscode.l10n.t('Already defined: {0}', conflicts.map(c => c.id).join(', ')) });
+    if (!choice) return false;
+    if (choice.value === 'skip') {
+      commands = commands.filter(c => !ids.has(c.id));
+    } else if (choice.value === 'copy') {
+      for (const c of conflicts) {
+        const from = c.id;
+        const to = makeUniqueId(`${from}-import`, new Set([...ids, ...commands.map(x => x.id)]));
+        // Steps of the imported set follow the copy
+        for (const other of commands) {
+          const steps = Array.isArray(other.steps) ? renameStepReferences(other.steps, from, to) : undefined;
+          if (steps) other.steps = steps;
+        }
+        c.id = to;
+      }
+    }
+  }
+  let count = 0;
+  for (const c of commands) {
+    const ok = layer === 'user' ? await upsertGlobalShortcut(c) : await upsertWorkspaceShortcut(c, folder, layer);
+    if (!ok) break;
+    count++;
+  }
+  // Inputs the imported commands rely on, unless the target already declares them
+  const inputs = Array.isArray(config!.inputs) ? config!.inputs.filter(i => i && typeof i.id === 'string') : [];
+  if (count && inputs.length) {
+    if (layer === 'user') {
+      const cfg = vscode.workspace.getConfiguration('terminalShortcuts');
+      const current = cfg.inspect<ShortcutInputConfig[]>('inputs')?.globalValue ?? [];
+      const added = inputs.filter(i => !current.some(x => x.id === i.id));
+      if (added.length) await cfg.update('inputs', [...current, ...added], vscode.ConfigurationTarget.Global);
+    } else {
+      await updateConfigText(folder!, layer, text => inputs.reduce(addInputText, text));
+    }
+  }
+  if (count) vscode.window.showInformationMessage(vscode.l10n.t('{0} shortcut(s) imported.', count));
+  return count > 0;
+}
+
+function makeUniqueId(base: string, existing: Set<string>): string {
+  if (!existing.has(base)) return base;
+  let i = 1;
+  while (existing.has(`${base}-${i}`)) i++;
+  return `${base}-${i}`;
+}
+
+async function upsertWorkspaceShortcut(shortcut: TerminalShortcutConfig, target?: vscode.WorkspaceFolder, layer: FileLayer = 'file'): Promise<boolean> {
+  const s = toShortcutConfig(shortcut);
+  const folders = vscode.workspace.workspaceFolders;
+  if (!folders || !folders.length) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No folder open to save in the workspace.'));
+    return false;
+  }
+  const folder = target ?? await pickWorkspaceFolder(vscode.l10n.t('Save in which folder?'));
+  if (!folder) return false;
+  const existing = await readConfigFile(folder, layer);
+  const file = existing?.uri ?? vscode.Uri.joinPath(folder.uri, layer === 'local' ? LOCAL_CONFIG : '.vscode/terminal-shortcuts.json');
+  const current = existing?.text ?? '';
+  if (current.trim() && !existing?.config) {
+    vscode.window.showErrorMessage(vscode.l10n.t('The file {0} has errors: fix them before saving (see Problems).', vscode.workspace.asRelativePath(file)));
+    return false;
+  }
+  try { await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(folder.uri, '.vscode')); } catch {}
   try {
-    const text = JSON.stringify(json, null, 2);
+    const text = upsertShortcutText(current, s);
     await vscode.workspace.fs.writeFile(file, new TextEncoder().encode(text));
     return true;
   } catch (e) {
-    vscode.window.showErrorMessage('Impossible d’écrire le fichier de configuration du workspace.');
+    vscode.window.showErrorMessage(vscode.l10n.t('Could not write the workspace configuration file.'));
     return false;
   }
 }
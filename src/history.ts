@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { RunOutcome, isFailure } from './execution';
+import { formatDuration } from './runState';
+import { EnvMap } from './types';
+
+const HISTORY_KEY = 'terminalShortcuts.history';
+const MAX_ENTRY_OUTPUT_LENGTH = 50_000;
+
+export interface HistoryEntry {
+  id: string;
+  shortcutKey: string;
+  label: string;
+  command: string; // resolved command text, as sent
+  cwd?: string;
+  env?: EnvMap;
+  terminalName: string;
+  startedAt: number;
+  status: 'running' | 'sent' | 'succeeded' | 'failed';
+  exitCode?: number;
+  duration?: number;
+  output?: string;
+}
+
+export type HistoryStart = Pick<HistoryEntry, 'shortcutKey' | 'label' | 'command' | 'cwd' | 'env' | 'terminalName'>;
+
+// Executions persisted in workspaceState, newest first
+export class RunHistory implements vscode.Disposable {
+  private entries: HistoryEntry[];
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly state: vscode.Memento) {
+    // runs still marked as running were interrupted by a reload: outcome unknown
+    this.entries = state.get<HistoryEntry[]>(HISTORY_KEY, [])
+      .map(e => e.status === 'running' ? { ...e, status: 'sent' as const } : e);
+  }
+
+  all(): readonly HistoryEntry[] {
+    return this.entries;
+  }
+
+  get(id: string): HistoryEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  // Returns the entry id, or undefined when history is disabled (retention 0)
+  start(run: HistoryStart): string | undefined {
+    if (maxEntries() <= 0) return undefined;
+    const entry: HistoryEntry = {
+      ...run,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: Date.now(),
+      status: 'running'
+    };
+    this.entries.unshift(entry);
+    this.save();
+    return entry.id;
+  }
+
+  // Kept in memory until the run finishes
+  appendOutput(id: string, data: string) {
+    const entry = this.get(id);
+    if (!entry) return;
+    entry.output = ((entry.output ?? '') + data).slice(-MAX_ENTRY_OUTPUT_LENGTH);
+  }
+
+  finish(id: string, outcome: RunOutcome) {
+    const entry = this.get(id);
+    if (!entry) return;
+    if (outcome.status === 'exited') {
+      entry.status = isFailure(outcome) ? 'failed' : 'succeeded';
+      entry.exitCode = outcome.exitCode;
+      entry.duration = Date.now() - entry.startedAt;
+    } else {
+      entry.status = 'sent';
+    }
+    this.save();
+  }
+
+  clear() {
+    this.entries = [];
+    this.save();
+  }
+
+  // Applies the retention limit, e.g. after the setting changed
+  prune() {
+    this.save();
+  }
+
+  private save() {
+    this.entries = this.entries.slice(0, Math.max(0, maxEntries()));
+    this.state.update(HISTORY_KEY, this.entries);
+    this._onDidChange.fire();
+  }
+
+  dispose() {
+    this._onDidChange.dispose();
+  }
+}
+
+function maxEntries(): number {
+  return vscode.workspace.getConfiguration('terminalShortcuts').get<number>('history.maxEntries') ?? 50;
+}
+
+export class HistoryTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: HistoryEntry) {
+    super(entry.label, vscode.TreeItemCollapsibleState.None);
+    this.id = entry.id;
+    const time = new Date(entry.startedAt).toLocaleString();
+    this.description = [time, historySummary(entry)].filter(Boolean).join(' · ');
+    this.tooltip = [
+      entry.command,
+      entry.cwd ? vscode.l10n.t('cwd: {0}', entry.cwd) : undefined,
+      vscode.l10n.t('Terminal: {0}', entry.terminalName),
+      vscode.l10n.t('Started: {0}', time),
+      historySummary(entry)
+    ].filter(Boolean).join('\n');
+    this.iconPath = historyIcon(entry);
+    this.contextValue = 'terminalShortcutHistoryEntry';
+    this.command = {
+      command: 'terminalShortcuts.openHistoryOutput',
+      title: vscode.l10n.t('Open Output'),
+      arguments: [this]
+    };
+  }
+}
+
+function historySummary(entry: HistoryEntry): string {
+  switch (entry.status) {
+    case 'running': return vscode.l10n.t('running…');
+    case 'sent': return vscode.l10n.t('sent');
+    case 'succeeded': return `✓ ${formatDuration(entry.duration ?? 0)}`;
+    case 'failed': return `✗ ${vscode.l10n.t('code {0}', String(entry.exitCode))} · ${formatDuration(entry.duration ?? 0)}`;
+  }
+}
+
+function historyIcon(entry: HistoryEntry): vscode.ThemeIcon {
+  switch (entry.status) {
+    case 'running': return new vscode.ThemeIcon('loading~spin');
+    case 'sent': return new vscode.ThemeIcon('arrow-right');
+    case 'succeeded': return new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'));
+    case 'failed': return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+  }
+}
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
+  readonly onDidChangeTreeData: vscode.Event<void>;
+
+  constructor(private readonly history: RunHistory) {
+    this.onDidChangeTreeData = history.onDidChange;
+  }
+
+  getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryTreeItem): Thenable<HistoryTreeItem[]> {
+    if (element) return Promise.resolve([]);
+    return Promise.resolve(this.history.all().map(e => new HistoryTreeItem(e)));
+  }
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { TextDecoder } from 'util';
+import { PARSE_OPTIONS } from './configFile';
+import { EnvMap, TerminalShortcutConfig } from './types';
+
+// A kind of file that already defines commands (package.json scripts, tasks.json…)
+export interface ImportSource {
+  id: 'npm' | 'tasks' | 'make' | 'compose';
+  label: string;
+  files: string[]; // names looked up in a directory, first found wins
+  toShortcuts(file: vscode.Uri, text: string, folder: vscode.WorkspaceFolder): Promise<TerminalShortcutConfig[]>;
+}
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+export const IMPORT_SOURCES: ImportSource[] = [
+  {
+    id: 'npm',
+    label: vscode.l10n.t('package.json scripts'),
+    files: ['package.json'],
+    async toShortcuts(file, text, folder) {
+      const manager = await detectPackageManager(file, text);
+      return parsePackageScripts(text).map(name => ({
+        ...base(vscode.Uri.joinPath(file, '..'), folder),
+        id: shortcutId('npm', name),
+        label: `${manager} ${name}`,
+        command: manager === 'npm' ? `npm run ${name}` : `${manager} run ${name}`,
+        group: vscode.l10n.t('Scripts'),
+        codicon: 'package'
+      }));
+    }
+  },
+  {
+    id: 'tasks',
+    label: vscode.l10n.t('.vscode/tasks.json tasks'),
+    files: ['.vscode/tasks.json'],
+    async toShortcuts(file, text, folder) {
+      // tasks.json sits in .vscode: its commands run from the directory above
+      const dir = vscode.Uri.joinPath(file, '..', '..');
+      return parseTasks(text).map(task => {
+        const shortcut: TerminalShortcutConfig = {
+          ...base(dir, folder),
+          id: shortcutId('task', task.label),
+          label: task.label,
+          command: task.command,
+          group: vscode.l10n.t('Tasks'),
+          codicon: 'tasklist'
+        };
+        if (task.cwd) shortcut.cwd = task.cwd;
+        if (task.env) shortcut.env = task.env;
+        return shortcut;
+      });
+    }
+  },
+  {
+    id: 'make',
+    label: vscode.l10n.t('Makefile targets'),
+    files: ['Makefile', 'makefile', 'GNUmakefile'],
+    async toShortcuts(file, text, folder) {
+      const flag = fileFlag(file, this.files);
+      return parseMakefile(text).map(target => ({
+        ...base(vscode.Uri.joinPath(file, '..'), folder),
+        id: shortcutId('make', target),
+        label: `make ${target}`,
+        command: `make${flag} ${target}`,
+        group: 'Make',
+        codicon: 'tools'
+      }));
+    }
+  },
+  {
+    id: 'compose',
+    label: vscode.l10n.t('docker-compose services'),
+    files: ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'],
+    async toShortcuts(file, text, folder) {
+      return parseComposeServices(text).map(service => ({
+        ...base(vscode.Uri.joinPath(file, '..'), folder),
+        id: shortcutId('compose', service),
+        label: `${service} (compose up)`,
+        command: `docker compose${fileFlag(file, this.files)} up ${service}`,
+        group: 'Docker/Compose',
+        codicon: 'server-process'
+      }));
+    }
+  }
+];
+
+// Shortcuts found by `source` at the root of the folder
+export async function importFromFolder(source: ImportSource, folder: vscode.WorkspaceFolder): Promise<TerminalShortcutConfig[]> {
+  for (const name of source.files) {
+    const file = vscode.Uri.joinPath(folder.uri, name);
+    const text = await readText(file);
+    if (text !== undefined) return source.toShortcuts(file, text, folder);
+  }
+  return [];
+}
+
+// Imported commands run from `dir`, relative to the folder
+function base(dir: vscode.Uri, folder: vscode.WorkspaceFolder): TerminalShortcutConfig {
+  const shortcut = {} as TerminalShortcutConfig;
+  const relative = path.posix.relative(folder.uri.path, dir.path);
+  if (relative) shortcut.cwd = `./${relative}`;
+  return shortcut;
+}
+
+// " -f name" when the tool would not pick the file up by itself
+function fileFlag(file: vscode.Uri, defaults: string[]): string {
+  const name = path.posix.basename(file.path);
+  return defaults.includes(name) ? '' : ` -f ${name}`;
+}
+
+// "build:prod" -> "npm-build-prod": no spaces nor ':' (reserved for "folder:id")
+export function shortcutId(prefix: string, name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${prefix}-${slug || 'x'}`;
+}
+
+export function parsePackageScripts(text: string): string[] {
+  const value = jsonc.parse(text, [], PARSE_OPTIONS);
+  const scripts = value?.scripts;
+  if (!scripts || typeof scripts !== 'object') return [];
+  return Object.keys(scripts).filter(name => typeof scripts[name] === 'string');
+}
+
+// `packageManager` field first ("pnpm@9.1.0"), then the lockfile next to package.json
+export async function detectPackageManager(file: vscode.Uri, text: string): Promise<PackageManager> {
+  const declared = jsonc.parse(text, [], PARSE_OPTIONS)?.packageManager;
+  if (typeof declared === 'string') {
+    const name = declared.split('@')[0];
+    if (name === 'pnpm' || name === 'yarn' || name === 'npm') return name;
+  }
+  const dir = vscode.Uri.joinPath(file, '..');
+  if (await exists(vscode.Uri.joinPath(dir, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (await exists(vscode.Uri.joinPath(dir, 'yarn.lock'))) return 'yarn';
+  return 'npm';
+}
+
+export interface ParsedTask {
+  label: string;
+  command: string;
+  cwd?: string;
+  env?: EnvMap;
+}
+
+// Shell and process tasks with a command; composite (dependsOn only) tasks are skipped
+export function parseTasks(text: string): ParsedTask[] {
+  const value = jsonc.parse(text, [], PARSE_OPTIONS);
+  if (!Array.isArray(value?.tasks)) return [];
+  const result: ParsedTask[] = [];
+  for (const task of value.tasks) {
+    if (!task || (task.type !== 'shell' && task.type !== 'process')) continue;
+    const command = taskArgument(task.command);
+    if (!command) continue;
+    const args = Array.isArray(task.args) ? task.args.map(taskArgument).filter((a: string | undefined) => a !== undefined) : [];
+    const parsed: ParsedTask = {
+      label: typeof task.label === 'string' && task.label ? task.label : command,
+      command: [command, ...args.map(quoteArgument)].join(' ')
+    };
+    if (typeof task.options?.cwd === 'string') parsed.cwd = task.options.cwd;
+    if (task.options?.env && typeof task.options.env === 'object') parsed.env = task.options.env;
+    result.push(parsed);
+  }
+  return result;
+}
+
+// Task commands and args are strings or { value, quoting }
+function taskArgument(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as { value?: unknown }).value === 'string') return (value as { value: string }).value;
+  return undefined;
+}
+
+function quoteArgument(arg: string): string {
+  return /[\s"]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg;
+}
+
+// Explicit targets, in file order. Pattern rules, special targets (.PHONY…)
+// and variable assignments ("CC := gcc") are not targets.
+export function parseMakefile(text: string): string[] {
+  const targets: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([^\s:#=][^:#=]*?)\s*::?(?!=)/.exec(line);
+    if (!match) continue;
+    for (const target of match[1].split(/\s+/)) {
+      if (target.startsWith('.') || /[%$]/.test(target) || targets.includes(target)) continue;
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+// Keys of the top-level `services:` mapping. A line-based reader is enough for
+// compose files and avoids a YAML dependency.
+export function parseComposeServices(text: string): string[] {
+  const services: string[] = [];
+  let inServices = false;
+  let indent: number | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const depth = line.length - line.trimStart().length;
+    if (depth === 0) {
+      inServices = /^services\s*:\s*(#.*)?$/.test(line);
+      indent = undefined;
+      continue;
+    }
+    if (!inServices) continue;
+    indent ??= depth;
+    if (depth !== indent) continue;
+    const match = /^\s*["']?([\w.-]+)["']?\s*:/.exec(line);
+    if (match) services.push(match[1]);
+  }
+  return services;
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+  } catch {
+    return undefined; // missing file
+  }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
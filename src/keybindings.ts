@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import * as path from 'path';
+import { TextDecoder, TextEncoder } from 'util';
+import { PARSE_OPTIONS } from './configFile';
+
+export const RUN_COMMAND = 'terminalShortcuts.runShortcut';
+const FORMATTING: jsonc.FormattingOptions = { insertSpaces: true, tabSize: 4, eol: '\n' };
+
+const MODIFIERS = ['ctrl', 'shift', 'alt', 'cmd', 'win', 'meta'];
+const KEY = /^([a-z0-9]|f([1-9]|1[0-9])|enter|escape|tab|space|backspace|delete|insert|home|end|pageup|pagedown|up|down|left|right|numpad[0-9]|numpad_(add|subtract|multiply|divide|decimal)|[`\-=[\]\\;',./])$/;
+
+export class KeybindingsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeybindingsFileError';
+  }
+}
+
+export interface KeybindingEntry {
+  key: string;
+  command: string;
+  args?: unknown;
+  when?: string;
+}
+
+// "Ctrl+Alt+B" -> "ctrl+alt+b", modifiers in canonical order; up to two chords
+// ("ctrl+k ctrl+b"). Undefined when the text is not a valid keybinding.
+export function normalizeChord(text: string): string | undefined {
+  const chords = text.trim().toLowerCase().split(/\s+/);
+  if (!chords[0] || chords.length > 2) return undefined;
+  const result: string[] = [];
+  for (const chord of chords) {
+    // "ctrl++" binds the plus key
+    const parts = chord.endsWith('++') ? [...chord.slice(0, -2).split('+'), '+'] : chord.split('+');
+    const key = parts.pop()!;
+    if (!KEY.test(key) && key !== '+') return undefined;
+    if (parts.some(m => !MODIFIERS.includes(m)) || new Set(parts).size !== parts.length) return undefined;
+    result.push([...MODIFIERS.filter(m => parts.includes(m)), key].join('+'));
+  }
+  return result.join(' ');
+}
+
+// User keybindings.json, next to the globalStorage folder. Each VS Code profile
+// has its own file (User/profiles/<id>/keybindings.json) and the API does not
+// tell which profile is active: undefined once profiles exist, unless the
+// storage folder is itself a profile's.
+export async function keybindingsUri(context: vscode.ExtensionContext): Promise<vscode.Uri | undefined> {
+  const userDir = vscode.Uri.joinPath(context.globalStorageUri, '..', '..');
+  if (path.posix.basename(path.posix.dirname(userDir.path)) === 'profiles') {
+    return vscode.Uri.joinPath(userDir, 'keybindings.json');
+  }
+  try {
+    const profiles = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(userDir, 'profiles'));
+    if (profiles.some(([, type]) => type === vscode.FileType.Directory)) return undefined;
+  } catch {
+    // no profiles folder: default profile
+  }
+  return vscode.Uri.joinPath(userDir, 'keybindings.json');
+}
+
+export class KeybindingManager {
+  private readonly uri: Promise<vscode.Uri | undefined>;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.uri = keybindingsUri(context);
+  }
+
+  // False when the active profile's keybindings.json is unknown: bindings must
+  // then be added by hand
+  async editable(): Promise<boolean> {
+    return !!await this.uri;
+  }
+
+  async entries(): Promise<KeybindingEntry[]> {
+    const value = jsonc.parse(await this.read(), [], PARSE_OPTIONS);
+    return Array.isArray(value) ? value.filter(e => e && typeof e.key === 'string' && typeof e.command === 'string') : [];
+  }
+
+  // Current key bound to the shortcut in keybindings.json
+  async get(shortcutKey: string): Promise<string | undefined> {
+    return (await this.entries()).find(e => isShortcutBinding(e, shortcutKey))?.key;
+  }
+
+  // Other user bindings on the same key (built-in and extension defaults are not visible)
+  async conflicts(key: string, shortcutKey: string): Promise<KeybindingEntry[]> {
+    return (await this.entries()).filter(e =>
+      !e.command.startsWith('-') && !isShortcutBinding(e, shortcutKey) && normalizeChord(e.key) === key);
+  }
+
+  // Replaces the shortcut's binding (args: its LoadedShortcut key); an undefined key removes it
+  async set(shortcutKey: string, key: string | undefined) {
+    const uri = await this.uri;
+    if (!uri) throw new KeybindingsFileError(vscode.l10n.t('The keybindings.json of the active VS Code profile is unknown: edit it with Preferences: Open Keyboard Shortcuts (JSON).'));
+    let text = await this.read();
+    if (!text.trim()) text = '[]';
+    const errors: jsonc.ParseError[] = [];
+    const entries = jsonc.parse(text, errors, PARSE_OPTIONS);
+    // Never rewrite a file we cannot parse: the user's bindings would be lost
+    if (errors.length || !Array.isArray(entries)) {
+      throw new KeybindingsFileError(vscode.l10n.t('keybindings.json has errors: fix it before changing key bindings.'));
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (isShortcutBinding(entries[i], shortcutKey)) text = applyEdit(text, [i], undefined);
+    }
+    if (key) {
+      const remaining = entries.filter(e => !isShortcutBinding(e, shortcutKey)).length;
+      text = applyEdit(text, [remaining], { key, command: RUN_COMMAND, args: shortcutKey }, true);
+    }
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+  }
+
+  private async read(): Promise<string> {
+    const uri = await this.uri;
+    if (!uri) return '[]';
+    try {
+      return new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+      return '[]'; // no user keybindings yet
+    }
+  }
+}
+
+function isShortcutBinding(e: KeybindingEntry, shortcutKey: string): boolean {
+  return !!e && e.command === RUN_COMMAND && e.args === shortcutKey;
+}
+
+function applyEdit(text: string, path: jsonc.JSONPath, value: unknown, isArrayInsertion = false): string {
+  const edits = jsonc.modify(text, path, value, { formattingOptions: FORMATTING, isArrayInsertion });
+  return jsonc.applyEdits(text, edits);
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { ConfigLayer, LoadedShortcut, TerminalShortcutConfig } from './types';
+
+// Lowest to highest priority
+export const LAYER_ORDER: ConfigLayer[] = ['detected', 'provided', 'default', 'user', 'workspace', 'workspaceFolder', 'file', 'local'];
+
+export const LAYER_LABELS: Record<ConfigLayer, string> = {
+  detected: vscode.l10n.t('Detected (package.json, tasks.json, Makefile…)'),
+  provided: vscode.l10n.t('Other extensions'),
+  default: vscode.l10n.t('Extension defaults'),
+  user: vscode.l10n.t('User settings'),
+  workspace: vscode.l10n.t('Workspace settings'),
+  workspaceFolder: vscode.l10n.t('Folder settings'),
+  file: '.vscode/terminal-shortcuts.json',
+  local: '.vscode/terminal-shortcuts.local.json'
+};
+
+// Object fields merged key by key; every other field is replaced as a whole
+const MERGED_OBJECT_FIELDS = ['env', 'icon'];
+
+export interface LayerSource {
+  layer: ConfigLayer;
+  commands: TerminalShortcutConfig[];
+}
+
+export interface MergedShortcut {
+  config: TerminalShortcutConfig;
+  origins: { [field: string]: ConfigLayer }; // "env.API_URL" for merged object fields
+  layers: ConfigLayer[]; // layers defining an entry with this id, lowest first
+}
+
+// Applies sources (lowest priority first) on top of `base`, field by field.
+// Entries are keyed by id; the result keeps first-definition order.
+export function mergeLayers(sources: LayerSource[], base: MergedShortcut[] = []): MergedShortcut[] {
+  const byId = new Map<string, MergedShortcut>();
+  for (const m of base) {
+    byId.set(m.config.id, { config: { ...m.config }, origins: { ...m.origins }, layers: [...m.layers] });
+  }
+  for (const { layer, commands } of sources) {
+    for (const entry of commands) {
+      if (!entry || typeof entry.id !== 'string') continue;
+      let merged = byId.get(entry.id);
+      if (!merged) {
+        merged = { config: { id: entry.id } as TerminalShortcutConfig, origins: {}, layers: [] };
+        byId.set(entry.id, merged);
+      }
+      applyEntry(merged, entry, layer);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+function applyEntry(merged: MergedShortcut, entry: TerminalShortcutConfig, layer: ConfigLayer) {
+  const target = merged.config as unknown as { [field: string]: unknown };
+  for (const [field, value] of Object.entries(entry)) {
+    if (field === 'id' || value === undefined) continue;
+    if (MERGED_OBJECT_FIELDS.includes(field) && value && typeof value === 'object' && !Array.isArray(value)) {
+      const current = (target[field] && typeof target[field] === 'object') ? target[field] as object : {};
+      target[field] = { ...current, ...value };
+      for (const key of Object.keys(value)) merged.origins[`${field}.${key}`] = layer;
+    } else {
+      target[field] = value;
+      merged.origins[field] = layer;
+    }
+  }
+  if (!merged.layers.includes(layer)) merged.layers.push(layer);
+}
+
+// Strips runtime-only fields before a shortcut is written to settings or a file
+export function toShortcutConfig(s: TerminalShortcutConfig): TerminalShortcutConfig {
+  const { key, folder, origins, layers, ...config } = s as LoadedShortcut;
+  return config;
+}
+
+export function topLayer(layers: ConfigLayer[]): ConfigLayer | undefined {
+  return [...layers].sort((a, b) => LAYER_ORDER.indexOf(a) - LAYER_ORDER.indexOf(b)).pop();
+}
+
+// Derived from project scripts only: nothing to write it back to
+export function isDetectedOnly(s: LoadedShortcut): boolean {
+  return s.layers.length === 1 && s.layers[0] === 'detected';
+}
+
+export function layerRank(layer: ConfigLayer): number {
+  return LAYER_ORDER.indexOf(layer);
+}
+
+// Settings scope written for a settings layer
+export function settingsTarget(layer: ConfigLayer): vscode.ConfigurationTarget | undefined {
+  switch (layer) {
+    case 'default':
+    case 'user': return vscode.ConfigurationTarget.Global;
+    case 'workspace': return vscode.ConfigurationTarget.Workspace;
+    case 'workspaceFolder': return vscode.ConfigurationTarget.WorkspaceFolder;
+    default: return undefined;
+  }
+}
+
+// "label: file · env.TOKEN: local" — one entry per field, grouped by layer
+export function describeOrigins(origins: { [field: string]: ConfigLayer }): string {
+  const byLayer = new Map<ConfigLayer, string[]>();
+  for (const [field, layer] of Object.entries(origins)) {
+    byLayer.set(layer, [...(byLayer.get(layer) ?? []), field]);
+  }
+  return LAYER_ORDER
+    .filter(l => byLayer.has(l))
+    .map(l => `${LAYER_LABELS[l]}: ${byLayer.get(l)!.join(', ')}`)
+    .join('\n');
+}
@@ -0,0 +1,399 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { CODICON_NAMES } from './codicons';
+import { LAYER_LABELS, toShortcutConfig, topLayer } from './layers';
+import { commandSummary } from './sequence';
+import { LoadedShortcut, TerminalShortcutConfig } from './types';
+
+// Where the manager saves a new shortcut
+export type SaveTarget = 'user' | 'file' | 'local';
+
+// Operations the manager delegates to the extension, so that its writes go
+// through the same code as the tree and the commands. Each returns false when
+// nothing was saved (the error has been shown).
+export interface ManagerHost {
+  shortcuts(): LoadedShortcut[];
+  resolveIcon(p: string, folder?: vscode.WorkspaceFolder): vscode.Uri;
+  create(config: TerminalShortcutConfig, target: SaveTarget, folder?: vscode.WorkspaceFolder): Promise<boolean>;
+  update(s: LoadedShortcut, config: TerminalShortcutConfig): Promise<boolean>;
+  remove(s: LoadedShortcut): Promise<boolean>;
+  move(s: LoadedShortcut, before: LoadedShortcut): Promise<boolean>;
+  duplicateGlobal(config: TerminalShortcutConfig): Promise<boolean>;
+  showOrigin(s: LoadedShortcut): Promise<void>;
+  assignKeybinding(s: LoadedShortcut): Promise<void>;
+  setSecret(): Promise<string | undefined>; // name of the secret stored
+}
+
+// Shortcut as sent to the webview
+interface ShortcutView {
+  key: string;
+  folder?: string; // folder uri
+  folderName?: string;
+  source: string;
+  summary: string;
+  config: TerminalShortcutConfig;
+  previews: { light?: string; dark?: string };
+}
+
+// Messages posted by the webview script
+type ManagerMessage =
+  | { type: 'ready' | 'addSecret' | 'confirmDiscard' | 'pickTerminalName' }
+  | { type: 'save'; config: TerminalShortcutConfig; key?: string; target?: SaveTarget; folder?: string }
+  | { type: 'delete' | 'showOrigin' | 'assignKeybinding'; key: string }
+  | { type: 'move'; key: string; before: string }
+  | { type: 'duplicateGlobal'; config: TerminalShortcutConfig }
+  | { type: 'pickIcon'; variant: 'light' | 'dark'; folder?: string }
+  | { type: 'previewIcon'; variant: 'light' | 'dark'; path: string; folder?: string };
+
+// Webview listing every shortcut with a form bound to all of its fields.
+// The webview script (media/manager.js) only talks to this class through messages.
+export class ShortcutManagerPanel {
+  public static current: ShortcutManagerPanel | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  // `key`: shortcut to open in the form
+  static show(context: vscode.ExtensionContext, host: ManagerHost, key?: string) {
+    if (ShortcutManagerPanel.current) {
+      ShortcutManagerPanel.current.panel.reveal(vscode.ViewColumn.Active);
+      ShortcutManagerPanel.current.refresh();
+      if (key) ShortcutManagerPanel.current.panel.webview.postMessage({ type: 'select', key });
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel('terminalShortcutsGui', vscode.l10n.t('Terminal Shortcuts — Manager'), vscode.ViewColumn.Active, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [
+        vscode.Uri.joinPath(context.extensionUri, 'media'),
+        vscode.Uri.joinPath(context.extensionUri, 'images'),
+        ...(vscode.workspace.workspaceFolders ?? []).map(f => f.uri)
+      ]
+    });
+    ShortcutManagerPanel.current = new ShortcutManagerPanel(panel, context, host, key);
+  }
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly context: vscode.ExtensionContext, private readonly host: ManagerHost, private initialKey?: string) {
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(msg => this.onMessage(msg), null, this.disposables);
+    this.panel.webview.html = this.html();
+  }
+
+  // Called after every reload, including edits made directly in the JSON files
+  refresh() {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(f => ({ uri: f.uri.toString(), name: f.name }));
+    this.panel.webview.postMessage({ type: 'state', shortcuts: this.host.shortcuts().map(s => this.toView(s)), folders });
+  }
+
+  private dispose() {
+    ShortcutManagerPanel.current = undefined;
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private toView(s: LoadedShortcut): ShortcutView {
+    const top = topLayer(s.layers);
+    const preview = (p?: string) => p ? this.panel.webview.asWebviewUri(this.host.resolveIcon(p, s.folder)).toString() : undefined;
+    return {
+      key: s.key,
+      folder: s.folder?.uri.toString(),
+      folderName: s.folder?.name,
+      source: top ? LAYER_LABELS[top] : '',
+      summary: commandSummary(s),
+      config: toShortcutConfig(s),
+      previews: { light: preview(s.icon?.light), dark: preview(s.icon?.dark) }
+    };
+  }
+
+  private find(key: unknown): LoadedShortcut | undefined {
+    return this.host.shortcuts().find(s => s.key === key);
+  }
+
+  private folder(uri: unknown): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.find(f => f.uri.toString() === uri);
+  }
+
+  private async onMessage(msg: ManagerMessage) {
+    switch (msg.type) {
+      case 'ready':
+        this.panel.webview.postMessage({ type: 'init', codicons: CODICON_NAMES, strings: webviewStrings() });
+        this.refresh();
+        if (this.initialKey) this.panel.webview.postMessage({ type: 'select', key: this.initialKey });
+        this.initialKey = undefined;
+        return;
+      case 'save': {
+        const config = msg.config;
+        const existing = msg.key ? this.find(msg.key) : undefined;
+        const ok = existing
+          ? await this.host.update(existing, config)
+          : await this.host.create(config, msg.target ?? 'user', this.folder(msg.folder));
+        this.panel.webview.postMessage({ type: 'saved', ok, id: config.id, folder: msg.folder });
+        return;
+      }
+      case 'delete': {
+        const s = this.find(msg.key);
+        if (!s) return;
+        const confirm = await vscode.window.showWarningMessage(
+          vscode.l10n.t('Delete “{0}”?', s.label),
+          { modal: true, detail: vscode.l10n.t('Sources: {0}', s.layers.map(l => LAYER_LABELS[l]).join(', ')) },
+          vscode.l10n.t('Delete')
+        );
+        if (confirm) await this.host.remove(s);
+        return;
+      }
+      case 'move': {
+        const s = this.find(msg.key);
+        const before = this.find(msg.before);
+        if (s && before && s !== before) await this.host.move(s, before);
+        return;
+      }
+      case 'duplicateGlobal':
+        await this.host.duplicateGlobal(msg.config);
+        return;
+      case 'showOrigin': {
+        const s = this.find(msg.key);
+        if (s) await this.host.showOrigin(s);
+        return;
+      }
+      case 'assignKeybinding': {
+        const s = this.find(msg.key);
+        if (s) await this.host.assignKeybinding(s);
+        return;
+      }
+      case 'addSecret': {
+        const name = await this.host.setSecret();
+        if (name) this.panel.webview.postMessage({ type: 'secret', name });
+        return;
+      }
+      case 'confirmDiscard': {
+        const choice = await vscode.window.showWarningMessage(vscode.l10n.t('Discard the pending changes?'), { modal: true }, vscode.l10n.t('Discard'));
+        this.panel.webview.postMessage({ type: 'discard', ok: !!choice });
+        return;
+      }
+      case 'pickTerminalName': {
+        const names = vscode.window.terminals.map(t => t.name);
+        if (!names.length) {
+          vscode.window.showInformationMessage(vscode.l10n.t('No open terminal.'));
+          return;
+        }
+        const picked = await vscode.window.showQuickPick(names, { placeHolder: vscode.l10n.t('Choose an existing terminal') });
+        if (picked) this.panel.webview.postMessage({ type: 'terminalName', name: picked });
+        return;
+      }
+      case 'pickIcon':
+        await this.pickIcon(msg.variant, this.folder(msg.folder));
+        return;
+      case 'previewIcon': {
+        const p = msg.path.trim();
+        const uri = p ? this.panel.webview.asWebviewUri(this.host.resolveIcon(p, this.folder(msg.folder))).toString() : undefined;
+        this.panel.webview.postMessage({ type: 'iconPreview', variant: msg.variant, path: p, uri });
+        return;
+      }
+    }
+  }
+
+  // Paths inside the folder are stored relative ("./icons/x.svg"), like hand-written configs
+  private async pickIcon(variant: 'light' | 'dark', folder?: vscode.WorkspaceFolder) {
+    const [picked] = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: folder?.uri,
+      filters: { Images: ['svg', 'png', 'jpg', 'jpeg', 'gif'] },
+      openLabel: vscode.l10n.t('Choose Icon')
+    }) ?? [];
+    if (!picked) return;
+    let p = picked.fsPath;
+    if (folder) {
+      const relative = path.relative(folder.uri.fsPath, picked.fsPath);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) p = `./${relative.split(path.sep).join('/')}`;
+    }
+    const uri = this.panel.webview.asWebviewUri(this.host.resolveIcon(p, folder)).toString();
+    this.panel.webview.postMessage({ type: 'iconPreview', variant, path: p, uri });
+  }
+
+  private html(): string {
+    const webview = this.panel.webview;
+    const nonce = randomBytes(16).toString('base64');
+    const media = (file: string) => webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, 'media', file));
+    const t = vscode.l10n.t;
+    return `<!doctype html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="utf-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <link rel="stylesheet" href="${media('manager.css')}" />
+  <title>Terminal Shortcuts</title>
+</head>
+<body>
+  <header>
+    <h2>${t('Shortcuts')}</h2>
+    <input id="filter" type="search" placeholder="${t('Filter…')}" />
+    <button id="new" type="button">${t('New')}</button>
+  </header>
+  <table id="list">
+    <thead><tr><th></th><th>${t('Label')}</th><th>Id</th><th>${t('Command')}</th><th>${t('Group')}</th><th>${t('Source')}</th></tr></thead>
+    <tbody></tbody>
+  </table>
+  <p class="hint">${t('Drag a row onto another to place it before (same group).')}</p>
+
+  <form id="form" novalidate hidden>
+    <h2 id="form-title"></h2>
+    <div id="stale" class="banner" hidden>
+      ${t('This shortcut was changed elsewhere.')} <button id="reload" type="button">${t('Reload')}</button>
+    </div>
+    <div class="row">
+      <label>${t('Label')}<input name="label" /></label>
+      <label>${t('Identifier')}<input name="id" /></label>
+    </div>
+    <label>${t('Command (one per line, run one after another)')}<textarea name="command" rows="2"></textarea></label>
+    <label>${t('Steps (JSON, replaces the command)')}<textarea name="steps" rows="3" placeholder='["lint", {"command": "npm test"}]'></textarea></label>
+    <label>${t('Arguments (JSON, asked at each run, used as {0})', '\${arg:name}')}<textarea name="args" rows="3" placeholder='[{"name": "env", "type": "enum", "options": ["dev", "prod"]}]'></textarea></label>
+    <div class="row">
+      <label>${t('Terminal name')}
+        <span class="inline"><input name="terminalName" /><button id="pick-terminal" type="button">${t('Choose…')}</button></span>
+      </label>
+      <label>${t('Working directory')}<input name="cwd" placeholder="\${workspaceFolder}/app" /></label>
+    </div>
+    <fieldset>
+      <legend>${t('Environment variables')}</legend>
+      <div id="env"></div>
+      <button id="add-env" type="button">${t('Add')}</button>
+      <button id="add-secret" type="button" title="${t('Value stored in the system keychain, referenced as {0}', '\${secret:NAME}')}">${t('Add Secret…')}</button>
+      <label>${t('.env files (comma separated)')}<input name="envFile" placeholder=".env, .env.local" /></label>
+    </fieldset>
+    <div class="row">
+      <label>${t('Location')}
+        <select name="location"><option value="editor">${t('Editor (main area)')}</option><option value="panel">${t('Panel (bottom)')}</option></select>
+      </label>
+      <label>${t('Editor column')}
+        <select name="viewColumn"><option value="0">${t('Active')}</option><option value="1">1</option><option value="2">2</option><option value="3">3</option></select>
+      </label>
+    </div>
+    <div class="row">
+      <label>${t('If the terminal already exists')}
+        <select name="instancePolicy">
+          <option value="">${t('As set by “Reuse terminal”')}</option>
+          <option value="reuse-if-idle">${t('Reuse it if idle, otherwise open another one')}</option>
+          <option value="always-new">${t('Always a new terminal')}</option>
+          <option value="restart">${t('Interrupt and restart')}</option>
+          <option value="refuse-if-running">${t('Refuse while running')}</option>
+        </select>
+      </label>
+    </div>
+    <div class="row">
+      <label>${t('Shell (path, replaces the profile)')}<input name="shellPath" placeholder="wsl.exe" /></label>
+      <label>${t('Terminal profile')}<input name="terminalProfile" placeholder="Git Bash" /></label>
+    </div>
+    <div class="row">
+      <label>${t('Group')}<input name="group" placeholder="Docker/Compose" /></label>
+      <label>Codicon
+        <span class="inline"><input name="codicon" list="codicons" /><span id="codicon-count"></span></span>
+        <datalist id="codicons"></datalist>
+      </label>
+    </div>
+    <label>${t('Visible when (when)')}<input name="when" placeholder="editorLangId == python && exists:pytest.ini" /></label>
+    <div class="row">
+      <label>${t('Status bar text')}<input name="statusBarText" /></label>
+      <label>${t('Confirmation (question, optional)')}<input name="confirmMessage" /></label>
+    </div>
+    <div class="row">
+      <label>${t('Status bar side')}
+        <select name="statusBarAlignment">
+          <option value="">${t('As in the settings')}</option>
+          <option value="left">${t('Left')}</option>
+          <option value="right">${t('Right')}</option>
+        </select>
+      </label>
+      <label>${t('Status bar priority')}<input name="statusBarPriority" type="number" placeholder="100" /></label>
+      <label>${t('Status bar color')}<input name="statusBarColor" placeholder="charts.green, #89d185" /></label>
+      <label>${t('Status bar background')}
+        <select name="statusBarBackground">
+          <option value="">${t('None')}</option>
+          <option value="warning">${t('Warning')}</option>
+          <option value="error">${t('Error')}</option>
+        </select>
+      </label>
+    </div>
+    <fieldset>
+      <legend>${t('View icons')}</legend>
+      <div class="row">
+        <div class="icon" data-variant="light">
+          <label>${t('Light')}<input name="iconLight" placeholder="./icons/build.svg" /></label>
+          <span class="inline"><img alt="" /><button type="button" data-pick="light">${t('Choose…')}</button></span>
+        </div>
+        <div class="icon" data-variant="dark">
+          <label>${t('Dark')}<input name="iconDark" placeholder="./icons/build-dark.svg" /></label>
+          <span class="inline"><img alt="" /><button type="button" data-pick="dark">${t('Choose…')}</button></span>
+        </div>
+      </div>
+    </fieldset>
+    <fieldset>
+      <legend>${t('Background service')}</legend>
+      <div class="checks">
+        <label><input type="checkbox" name="background" /> ${t('Service (hidden terminal, tracked state)')}</label>
+        <label><input type="checkbox" name="autoStart" /> ${t('Start when the folder opens')}</label>
+      </div>
+      <div class="row">
+        <label>${t('Ready when the output contains (regex)')}<input name="readyPattern" placeholder="ready in|Local:" /></label>
+        <label>${t('Or when this port answers')}<input name="readyPort" type="number" min="1" max="65535" placeholder="5173" /></label>
+      </div>
+      <div class="row">
+        <label>${t('Error when the output contains (regex)')}<input name="errorPattern" /></label>
+        <label>${t('Wait for services (comma separated ids)')}<input name="dependsOn" placeholder="api, db" /></label>
+      </div>
+    </fieldset>
+    <div class="checks">
+      <label><input type="checkbox" name="reuse" /> ${t('Reuse terminal')}</label>
+      <label><input type="checkbox" name="focus" /> ${t('Focus after running')}</label>
+      <label><input type="checkbox" name="sendEnter" /> ${t('Submit the command (Enter)')}</label>
+      <label><input type="checkbox" name="statusBar" /> ${t('Status bar')}</label>
+      <label><input type="checkbox" name="confirm" /> ${t('Ask for confirmation')}</label>
+    </div>
+    <div id="target" class="row" hidden>
+      <label>${t('Save to')}
+        <select name="target">
+          <option value="file">${t('Project ({0})', '.vscode/terminal-shortcuts.json')}</option>
+          <option value="local">${t('Local ({0})', '.vscode/terminal-shortcuts.local.json')}</option>
+          <option value="user">${LAYER_LABELS.user}</option>
+        </select>
+      </label>
+      <label id="folder-field">${t('Folder')}<select name="folder"></select></label>
+    </div>
+    <p id="keybinding" class="hint"></p>
+    <p class="actions">
+      <button type="submit">${t('Save')}</button>
+      <button id="duplicate" type="button">${t('Duplicate as Global')}</button>
+      <button id="assign-key" type="button">${t('Key Binding…')}</button>
+      <button id="origin" type="button">${t('Origin')}</button>
+      <button id="delete" type="button" class="danger">${t('Delete')}</button>
+      <button id="cancel" type="button">${t('Close')}</button>
+    </p>
+  </form>
+  <script nonce="${nonce}" src="${media('manager.js')}"></script>
+</body>
+</html>`;
+  }
+}
+
+// Messages of media/manager.js, translated here: the webview has no access to
+// vscode.l10n. Placeholders ({0}) are filled in by the webview.
+function webviewStrings(): { [message: string]: string } {
+  return {
+    'New shortcut': vscode.l10n.t('New shortcut'),
+    'Key binding: {0}': vscode.l10n.t('Key binding: {0}'),
+    'NAME': vscode.l10n.t('NAME'),
+    'value': vscode.l10n.t('value'),
+    'Remove': vscode.l10n.t('Remove'),
+    'Identifier required.': vscode.l10n.t('Identifier required.'),
+    'Variable name required.': vscode.l10n.t('Variable name required.'),
+    'No spaces or “:”.': vscode.l10n.t('No spaces or “:”.'),
+    'Identifier already used.': vscode.l10n.t('Identifier already used.'),
+    'Label required.': vscode.l10n.t('Label required.'),
+    'A JSON array is expected.': vscode.l10n.t('A JSON array is expected.'),
+    'Invalid JSON: {0}': vscode.l10n.t('Invalid JSON: {0}'),
+    'Command (or steps) required.': vscode.l10n.t('Command (or steps) required.'),
+    'Each argument needs a "name".': vscode.l10n.t('Each argument needs a "name".'),
+    '“{0}” is duplicated.': vscode.l10n.t('“{0}” is duplicated.'),
+    'Invalid regular expression: {0}': vscode.l10n.t('Invalid regular expression: {0}'),
+    'Unknown codicon.': vscode.l10n.t('Unknown codicon.'),
+    '{0} icons': vscode.l10n.t('{0} icons')
+  };
+}
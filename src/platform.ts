@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlatformOverrideConfig, TerminalShortcutConfig } from './types';
+
+export type PlatformKey = 'windows' | 'linux' | 'osx';
+
+// Quoting rules of a terminal's shell
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+// Shell of a terminal created for a shortcut; empty for the default profile
+export interface ShellOptions {
+  shellPath?: string;
+  shellArgs?: string | string[];
+  env?: { [key: string]: string | null };
+}
+
+// Entry of terminal.integrated.profiles.<os>
+interface TerminalProfileSetting {
+  path?: string | string[];
+  args?: string | string[];
+  env?: { [key: string]: string | null };
+  source?: string;
+}
+
+export class TerminalProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TerminalProfileError';
+  }
+}
+
+// Same keys as VS Code's terminal.integrated.*.<os> settings
+export function currentPlatform(): PlatformKey {
+  if (process.platform === 'win32') return 'windows';
+  return process.platform === 'darwin' ? 'osx' : 'linux';
+}
+
+// The shortcut as it runs on this OS: the `windows`/`linux`/`osx` block
+// replaces its fields, env is merged. The blocks are dropped, so applying it
+// twice is harmless.
+export function forPlatform<T extends TerminalShortcutConfig>(s: T): T {
+  const { windows, linux, osx, ...rest } = s;
+  const override: PlatformOverrideConfig | undefined = { windows, linux, osx }[currentPlatform()];
+  if (!override) return rest as T;
+  return { ...rest, ...override, env: override.env ? { ...rest.env, ...override.env } : rest.env } as T;
+}
+
+// `command` as the lines sent one after another (a string may hold several)
+export function commandLines(command: string | string[] | undefined): string[] {
+  return (typeof command === 'string' ? [command] : command ?? [])
+    .flatMap(c => c.split(/\r?\n/))
+    .filter(line => line.trim());
+}
+
+// One string for display, history and guard patterns: lines joined by newlines
+export function commandText(command: string | string[] | undefined): string {
+  return commandLines(command).join('\n');
+}
+
+// From the shell executable ("C:\\Windows\\System32\\cmd.exe", "/bin/zsh");
+// without one, the platform's default shell
+export function shellKind(shellPath: string | undefined): ShellKind {
+  const name = path.win32.basename(shellPath ?? '').toLowerCase().replace(/\.exe$/, '');
+  if (name === 'pwsh' || name === 'powershell') return 'powershell';
+  if (name === 'cmd') return 'cmd';
+  // Git Bash, WSL and the other shells quote like sh
+  return name || process.platform !== 'win32' ? 'posix' : 'powershell';
+}
+
+// One argument, taken literally by the shell: no variable ($HOME, %PATH%) or
+// backtick is expanded
+export function quoteShellArgument(text: string, kind: ShellKind): string {
+  switch (kind) {
+    case 'powershell':
+      // PowerShell also ends single-quoted strings on typographic quotes
+      return `'${text.replace(/['\u2018\u2019\u201a\u201b]/g, '$&$&')}'`;
+    case 'cmd':
+      // "^%" outside the quotes: cmd neither expands the variable nor keeps the caret
+      return `"${text.replace(/"/g, '""').replace(/%/g, '"^%"')}"`;
+    default:
+      return `'${text.replace(/'/g, `'\\''`)}'`;
+  }
+}
+
+// shellPath/shellArgs, else the named terminal profile, else the default shell
+export function shellOptions(s: TerminalShortcutConfig): ShellOptions {
+  if (s.shellPath) return { shellPath: s.shellPath, shellArgs: s.shellArgs };
+  return s.terminalProfile ? resolveTerminalProfile(s.terminalProfile) : {};
+}
+
+// Profiles with a `path` only: those based on `source` (PowerShell, Git Bash)
+// or contributed by extensions cannot be created through the API
+function resolveTerminalProfile(name: string): ShellOptions {
+  const setting = `terminal.integrated.profiles.${currentPlatform()}`;
+  const profiles = vscode.workspace.getConfiguration().get<{ [name: string]: TerminalProfileSetting | null }>(setting) ?? {};
+  const profile = profiles[name];
+  if (!profile) {
+    const names = Object.keys(profiles).filter(n => profiles[n]);
+    throw new TerminalProfileError(vscode.l10n.t('Unknown terminal profile: "{0}" ({1}: {2})', name, setting, names.join(', ') || vscode.l10n.t('none')));
+  }
+  const paths = typeof profile.path === 'string' ? [profile.path] : profile.path ?? [];
+  const shellPath = paths.find(p => fs.existsSync(p)) ?? paths[0];
+  if (!shellPath) {
+    throw new TerminalProfileError(vscode.l10n.t('Terminal profile "{0}" has no "path" ("source" profiles are not supported)', name));
+  }
+  return { shellPath, shellArgs: profile.args, env: profile.env };
+}
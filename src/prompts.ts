@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { VariableResolutionError, VariableResolver } from './variables';
+import { LoadedPrompt } from './types';
+
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+const MAX_DIFF_BUFFER = 10 * 1024 * 1024;
+
+// Expands a prompt body in a single pass, so that `${...}` inside the selection
+// or the diff is sent as is. Prompt-only placeholders:
+//   ${gitDiffStaged}   output of `git diff --staged` in `cwd`
+//   ${ask:Question}    free text typed when the prompt is sent
+// Everything else (${file}, ${selectedText}, ${input:id}…) goes to the resolver.
+// Returns undefined if the user cancelled a question.
+export async function resolvePromptBody(body: string, resolver: VariableResolver, cwd: string | undefined): Promise<string | undefined> {
+  let result = '';
+  let last = 0;
+  for (const m of body.matchAll(PLACEHOLDER_PATTERN)) {
+    const value = await resolvePlaceholder(m[1], resolver, cwd);
+    if (value === undefined) return undefined;
+    result += body.slice(last, m.index) + value;
+    last = m.index! + m[0].length;
+  }
+  return result + body.slice(last);
+}
+
+async function resolvePlaceholder(name: string, resolver: VariableResolver, cwd: string | undefined): Promise<string | undefined> {
+  if (name === 'gitDiffStaged') return stagedDiff(cwd);
+  if (name.startsWith('ask:')) return vscode.window.showInputBox({ prompt: name.slice(4), ignoreFocusOut: true });
+  return resolver.resolve(`\${${name}}`);
+}
+
+function stagedDiff(cwd: string | undefined): Promise<string> {
+  if (!cwd) return Promise.reject(new VariableResolutionError(vscode.l10n.t('{0} needs a working directory', '${gitDiffStaged}')));
+  return new Promise((resolve, reject) => {
+    execFile('git', ['diff', '--staged'], { cwd, maxBuffer: MAX_DIFF_BUFFER }, (error, stdout, stderr) => {
+      if (error) reject(new VariableResolutionError(vscode.l10n.t('git diff --staged failed: {0}', (stderr || error.message).trim())));
+      else if (!stdout.trim()) reject(new VariableResolutionError(vscode.l10n.t('No staged changes (git diff --staged is empty)')));
+      else resolve(stdout);
+    });
+  });
+}
+
+export class PromptTreeItem extends vscode.TreeItem {
+  constructor(public readonly prompt: LoadedPrompt) {
+    super(prompt.name, vscode.TreeItemCollapsibleState.None);
+    this.id = `prompt:${prompt.key}`;
+    this.description = [prompt.target ? `→ ${prompt.target}` : undefined, prompt.folder?.name].filter(Boolean).join(' · ');
+    this.tooltip = new vscode.MarkdownString().appendCodeblock(prompt.body, 'text');
+    this.iconPath = new vscode.ThemeIcon('comment-discussion');
+    this.contextValue = 'terminalShortcutPrompt';
+    this.command = {
+      command: 'terminalShortcuts.sendPrompt',
+      title: vscode.l10n.t('Send Prompt'),
+      arguments: [this]
+    };
+  }
+}
+
+export class PromptTreeProvider implements vscode.TreeDataProvider<PromptTreeItem> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly getPrompts: () => readonly LoadedPrompt[]) {}
+
+  refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: PromptTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: PromptTreeItem): Thenable<PromptTreeItem[]> {
+    if (element) return Promise.resolve([]);
+    return Promise.resolve(this.getPrompts().map(p => new PromptTreeItem(p)));
+  }
+}
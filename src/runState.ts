@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { RunOutcome, isFailure } from './execution';
+
+const MAX_OUTPUT_LENGTH = 200_000;
+
+export type RunState =
+  | { status: 'running'; startedAt: number; output: string }
+  | { status: 'sent'; startedAt: number; output: string } // no shell integration: outcome unknown
+  | { status: 'succeeded' | 'failed'; startedAt: number; duration: number; exitCode: number | undefined; output: string };
+
+// Last execution of each shortcut (by key), for the tree view and the status bar
+export class RunStateStore implements vscode.Disposable {
+  private readonly states = new Map<string, RunState>();
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  readonly onDidChange = this._onDidChange.event;
+
+  get(key: string): RunState | undefined {
+    return this.states.get(key);
+  }
+
+  start(key: string) {
+    this.states.set(key, { status: 'running', startedAt: Date.now(), output: '' });
+    this._onDidChange.fire(key);
+  }
+
+  appendOutput(key: string, data: string) {
+    const state = this.states.get(key);
+    if (!state) return;
+    // keep the tail of long outputs
+    state.output = (state.output + data).slice(-MAX_OUTPUT_LENGTH);
+  }
+
+  finish(key: string, outcome: RunOutcome) {
+    const state = this.states.get(key);
+    if (!state) return;
+    if (outcome.status === 'cancelled') {
+      this.states.delete(key);
+    } else if (outcome.status === 'sent') {
+      this.states.set(key, { status: 'sent', startedAt: state.startedAt, output: state.output });
+    } else {
+      this.states.set(key, {
+        status: isFailure(outcome) ? 'failed' : 'succeeded',
+        startedAt: state.startedAt,
+        duration: Date.now() - state.startedAt,
+        exitCode: outcome.exitCode,
+        output: state.output
+      });
+    }
+    this._onDidChange.fire(key);
+  }
+
+  dispose() {
+    this._onDidChange.dispose();
+  }
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} min ${Math.round(seconds % 60)} s`;
+}
+
+// Short form for tree descriptions, e.g. "✓ 2.3 s" or "✗ code 1"
+export function summarizeRunState(state: RunState): string {
+  switch (state.status) {
+    case 'running': return vscode.l10n.t('running…');
+    case 'sent': return vscode.l10n.t('sent');
+    case 'succeeded': return `✓ ${formatDuration(state.duration)}`;
+    case 'failed': return `✗ ${vscode.l10n.t('code {0}', String(state.exitCode))} · ${formatDuration(state.duration)}`;
+  }
+}
+
+export function describeRunState(state: RunState): string {
+  const started = new Date(state.startedAt).toLocaleTimeString();
+  switch (state.status) {
+    case 'running': return vscode.l10n.t('Running since {0}', started);
+    case 'sent': return vscode.l10n.t('Sent at {0} (no shell integration: outcome unknown)', started);
+    case 'succeeded': return vscode.l10n.t('Succeeded at {0} in {1}', started, formatDuration(state.duration));
+    case 'failed': return vscode.l10n.t('Failed at {0} (code {1}) after {2}', started, String(state.exitCode), formatDuration(state.duration));
+  }
+}
+
+// Codicon reflecting the state; undefined keeps the shortcut's own icon
+export function runStateIcon(state: RunState | undefined): vscode.ThemeIcon | undefined {
+  switch (state?.status) {
+    case 'running': return new vscode.ThemeIcon('loading~spin');
+    case 'succeeded': return new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'));
+    case 'failed': return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    default: return undefined;
+  }
+}
+
+// Removes terminal escape sequences (colors, cursor moves, shell integration marks)
+export function stripAnsi(text: string): string {
+  return text
+    .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')
+    .replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]/g, '')
+    .replace(/\r(?!\n)/g, '');
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { ConfigLayer, TerminalShortcutConfig } from './types';
+
+const APPROVALS_KEY = 'terminalShortcuts.approvedSources';
+
+// Layers a cloned repository controls: untrusted until the folder is trusted
+// or their commands are approved
+export const WORKSPACE_LAYERS: ConfigLayer[] = ['detected', 'workspace', 'workspaceFolder', 'file', 'local'];
+
+export function isWorkspaceLayer(layer: ConfigLayer): boolean {
+  return WORKSPACE_LAYERS.includes(layer);
+}
+
+// A workspace-controlled list of shortcut entries, approved as a whole
+export interface WorkspaceSource {
+  label: string;
+  commands: TerminalShortcutConfig[];
+  hash: string;
+}
+
+export function hashCommands(commands: TerminalShortcutConfig[]): string {
+  return createHash('sha256').update(JSON.stringify(commands)).digest('hex');
+}
+
+// Hashes of approved sources, per source key. Any edit of a source changes
+// its hash, which withdraws the approval.
+export class ApprovalStore {
+  constructor(private readonly memento: vscode.Memento) {}
+
+  isApproved(key: string, source: WorkspaceSource): boolean {
+    return this.all()[key] === source.hash;
+  }
+
+  async approve(entries: { key: string; source: WorkspaceSource }[]) {
+    const all = this.all();
+    for (const { key, source } of entries) all[key] = source.hash;
+    await this.memento.update(APPROVALS_KEY, all);
+  }
+
+  private all(): { [key: string]: string } {
+    return { ...this.memento.get<{ [key: string]: string }>(APPROVALS_KEY, {}) };
+  }
+}
+
+// Patterns are plain substrings, or regular expressions written as "/.../flags".
+// Returns the first pattern found in the command.
+export function matchPattern(command: string, patterns: string[]): string | undefined {
+  return patterns.find(p => {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(p);
+    if (!regex) return p.length > 0 && command.includes(p);
+    try {
+      return new RegExp(regex[1], regex[2]).test(command);
+    } catch {
+      return false; // invalid expression: ignored
+    }
+  });
+}
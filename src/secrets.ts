@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { VariableResolutionError } from './variables';
+
+const NAMES_KEY = 'terminalShortcuts.secretNames';
+const STORAGE_PREFIX = 'terminalShortcuts.secret.';
+const SECRET_REFERENCE = /\$\{secret:([^}]+)\}/g;
+const SECRET_NAME = /^[A-Za-z_][\w.-]*$/;
+
+// Values of ${secret:NAME}, kept in the OS keychain (ExtensionContext.secrets).
+// SecretStorage cannot list its keys: the names are kept in globalState. The
+// known values are turned back into ${secret:NAME} in everything the extension
+// stores or shows (history, run output, tooltips).
+export class SecretVault implements vscode.Disposable {
+  private readonly values = new Map<string, string>();
+  private readonly subscription: vscode.Disposable;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly storage: vscode.SecretStorage, private readonly state: vscode.Memento) {
+    // Another window may have set or cleared a secret
+    this.subscription = storage.onDidChange(async e => {
+      if (!e.key.startsWith(STORAGE_PREFIX)) return;
+      await this.reload(e.key.slice(STORAGE_PREFIX.length));
+      this._onDidChange.fire();
+    });
+  }
+
+  // Reads the values once, so that redaction works before the first run
+  async load() {
+    await Promise.all(this.names().map(name => this.reload(name)));
+  }
+
+  names(): string[] {
+    return this.state.get<string[]>(NAMES_KEY, []);
+  }
+
+  async get(name: string): Promise<string | undefined> {
+    return this.values.get(name) ?? this.reload(name);
+  }
+
+  async set(name: string, value: string) {
+    await this.storage.store(STORAGE_PREFIX + name, value);
+    this.values.set(name, value);
+    if (!this.names().includes(name)) await this.state.update(NAMES_KEY, [...this.names(), name].sort());
+    this._onDidChange.fire();
+  }
+
+  async delete(name: string) {
+    await this.storage.delete(STORAGE_PREFIX + name);
+    this.values.delete(name);
+    await this.state.update(NAMES_KEY, this.names().filter(n => n !== name));
+    this._onDidChange.fire();
+  }
+
+  // Replaces the ${secret:NAME} references of a redacted text (history re-run)
+  async reveal(text: string): Promise<string> {
+    let result = '';
+    let last = 0;
+    for (const m of text.matchAll(SECRET_REFERENCE)) {
+      const value = await this.get(m[1]);
+      if (value === undefined) throw new SecretNotFoundError(m[1]);
+      result += text.slice(last, m.index) + value;
+      last = m.index! + m[0].length;
+    }
+    return result + text.slice(last);
+  }
+
+  redact(text: string): string {
+    return this.known().reduce((t, [name, value]) => t.split(value).join(`\${secret:${name}}`), text);
+  }
+
+  // For output read in chunks, where a value may be split between two of them
+  redactor(): StreamRedactor {
+    return new StreamRedactor(() => this.known());
+  }
+
+  // Longest values first, so that a secret containing another one stays whole
+  private known(): [name: string, value: string][] {
+    return [...this.values].filter(([, value]) => value).sort((a, b) => b[1].length - a[1].length);
+  }
+
+  private async reload(name: string): Promise<string | undefined> {
+    const value = await this.storage.get(STORAGE_PREFIX + name);
+    if (value === undefined) this.values.delete(name);
+    else this.values.set(name, value);
+    return value;
+  }
+
+  dispose() {
+    this.subscription.dispose();
+    this._onDidChange.dispose();
+  }
+}
+
+// Holds back the end of each chunk that could be the start of a secret, until
+// the next chunk (or flush) tells whether it is one
+export class StreamRedactor {
+  private pending = '';
+
+  constructor(private readonly secrets: () => [name: string, value: string][]) {}
+
+  push(chunk: string): string {
+    return this.scan(this.pending + chunk, false);
+  }
+
+  // End of the stream: returns what was held back
+  flush(): string {
+    return this.scan(this.pending, true);
+  }
+
+  private scan(text: string, final: boolean): string {
+    const secrets = this.secrets();
+    const longest = secrets[0]?.[1].length ?? 0;
+    // Below the limit, every secret starting there fits in the text
+    const limit = final || !longest ? text.length : Math.max(0, text.length - longest + 1);
+    let result = '';
+    let i = 0;
+    while (i < limit) {
+      const hit = secrets.find(([, value]) => text.startsWith(value, i));
+      if (hit) {
+        result += `\${secret:${hit[0]}}`;
+        i += hit[1].length;
+      } else {
+        result += text[i++];
+      }
+    }
+    this.pending = text.slice(i);
+    return result;
+  }
+}
+
+export class SecretNotFoundError extends VariableResolutionError {
+  constructor(readonly secretName: string) {
+    super(vscode.l10n.t('Secret not set: {0} (Terminal AI Shortcuts: Set Secret…)', `\${secret:${secretName}}`));
+    this.name = 'SecretNotFoundError';
+  }
+}
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { RunOutcome, isFailure } from './execution';
+import { LoadedShortcut, ShortcutStep, ShortcutStepConfig, TerminalShortcutConfig } from './types';
+import { commandText, forPlatform } from './platform';
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SequenceError';
+  }
+}
+
+export type SequenceOutcome =
+  | { ok: true }
+  | { ok: false; step: string; outcome: RunOutcome };
+
+export interface StepRunner {
+  // Resolves a referenced id relative to the shortcut that references it
+  find(id: string, from: LoadedShortcut): LoadedShortcut | undefined;
+  runShortcut(s: LoadedShortcut): Promise<RunOutcome>;
+  // lane is undefined for sequential steps, "1", "2", "1.2"… inside parallel groups
+  runCommand(command: string, lane: string | undefined): Promise<RunOutcome>;
+}
+
+function toStep(step: ShortcutStep): ShortcutStepConfig {
+  return typeof step === 'string' ? { ref: step } : step;
+}
+
+export function stepLabel(step: ShortcutStep, find: (id: string) => LoadedShortcut | undefined): string {
+  const s = toStep(step);
+  if (s.label) return s.label;
+  if (s.ref) return find(s.ref)?.label ?? s.ref;
+  if (s.parallel) return s.parallel.map(p => stepLabel(p, find)).join(' ∥ ');
+  return s.command ?? '';
+}
+
+// Rejects unknown references and reference cycles before anything runs
+export function checkSequence(root: LoadedShortcut, find: StepRunner['find']): void {
+  const visit = (s: LoadedShortcut, stack: string[]) => {
+    if (stack.includes(s.key)) {
+      throw new SequenceError(vscode.l10n.t('Circular reference: {0}', [...stack, s.key].join(' → ')));
+    }
+    const refs: string[] = [];
+    const collect = (steps: ShortcutStep[]) => steps.map(toStep).forEach(step => {
+      if (step.ref) refs.push(step.ref);
+      if (step.parallel) collect(step.parallel);
+      if (!step.ref && !step.parallel && !step.command) {
+        throw new SequenceError(vscode.l10n.t('Empty step in “{0}” (expected ref, command or parallel)', s.label));
+      }
+    });
+    collect(s.steps ?? []);
+    for (const ref of refs) {
+      const target = find(ref, s);
+      if (!target) throw new SequenceError(vscode.l10n.t('Step not found in “{0}”: {1}', s.label, ref));
+      visit(target, [...stack, s.key]);
+    }
+  };
+  visit(root, []);
+}
+
+// Runs steps in order and stops at the first one that fails or cannot report an exit code
+export async function runSteps(root: LoadedShortcut, runner: StepRunner): Promise<SequenceOutcome> {
+  const find = (id: string) => runner.find(id, root);
+  const runStep = async (step: ShortcutStep, lane: string | undefined): Promise<SequenceOutcome> => {
+    const s = toStep(step);
+    if (s.parallel) {
+      const results = await Promise.all(s.parallel.map((p, i) => runStep(p, lane ? `${lane}.${i + 1}` : `${i + 1}`)));
+      return results.find(r => !r.ok) ?? { ok: true };
+    }
+    let outcome: RunOutcome;
+    if (s.ref) {
+      outcome = await runner.runShortcut(find(s.ref)!);
+    } else {
+      outcome = await runner.runCommand(s.command!, lane);
+    }
+    if (outcome.status !== 'exited' || isFailure(outcome)) {
+      return { ok: false, step: stepLabel(step, find), outcome };
+    }
+    return { ok: true };
+  };
+  for (const step of root.steps ?? []) {
+    const result = await runStep(step, undefined);
+    if (!result.ok) return result;
+  }
+  return { ok: true };
+}
+
+// What a shortcut runs, for tooltips and pickers: its command or "lint → test → build"
+export function commandSummary(s: TerminalShortcutConfig): string {
+  if (!s.steps || !s.steps.length) return commandText(forPlatform(s).command);
+  return s.steps.map(step => stepLabel(step, () => undefined)).join(' → ');
+}
+
+// Copy of `steps` where references to `from` point to `to`; undefined when none does
+export function renameStepReferences(steps: ShortcutStep[], from: string, to: string): ShortcutStep[] | undefined {
+  let changed = false;
+  const rename = (list: ShortcutStep[]): ShortcutStep[] => list.map(step => {
+    if (typeof step === 'string') {
+      if (step !== from) return step;
+      changed = true;
+      return to;
+    }
+    const next = { ...step };
+    if (next.ref === from) {
+      next.ref = to;
+      changed = true;
+    }
+    if (next.parallel) next.parallel = rename(next.parallel);
+    return next;
+  });
+  const result = rename(steps);
+  return changed ? result : undefined;
+}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { stripAnsi } from './runState';
+
+const PORT_PROBE_INTERVAL_MS = 500;
+const MATCH_WINDOW_LENGTH = 4000; // output kept to match patterns split across chunks
+export const SERVICE_READY_TIMEOUT_MS = 120_000;
+
+// Readiness settings of a background shortcut
+export interface ServiceOptions {
+  readyPattern?: string; // regex on the output
+  readyPort?: number; // ready once localhost:port accepts connections
+  errorPattern?: string;
+}
+
+export type ServiceState =
+  | { status: 'starting' | 'ready' | 'stopped'; since: number }
+  | { status: 'failed'; since: number; reason: string };
+
+// Output and end of one run of a service; ignored once the service was restarted
+export interface ServiceRun {
+  output(data: string): void;
+  exited(exitCode: number | undefined): void;
+}
+
+interface Watch {
+  terminal: vscode.Terminal;
+  ready?: RegExp;
+  error?: RegExp;
+  window: string;
+  stopRequested: boolean;
+  probe?: NodeJS.Timeout;
+  closeSub: vscode.Disposable;
+}
+
+// State of the background shortcuts (services), by shortcut key. Output comes
+// from shell integration; the port probe also works without it.
+export class ServiceStore implements vscode.Disposable {
+  private readonly states = new Map<string, ServiceState>();
+  private readonly watches = new Map<string, Watch>();
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  readonly onDidChange = this._onDidChange.event;
+
+  get(key: string): ServiceState | undefined {
+    return this.states.get(key);
+  }
+
+  isRunning(key: string): boolean {
+    return this.watches.has(key);
+  }
+
+  // Starts watching a service just launched in `terminal`. Without a pattern
+  // nor a port it is ready as soon as it starts.
+  start(key: string, terminal: vscode.Terminal, options: ServiceOptions): ServiceRun | undefined {
+    this.unwatch(key);
+    let ready: RegExp | undefined;
+    let error: RegExp | undefined;
+    try {
+      ready = options.readyPattern ? new RegExp(options.readyPattern, 'm') : undefined;
+      error = options.errorPattern ? new RegExp(options.errorPattern, 'm') : undefined;
+    } catch (e) {
+      this.set(key, { status: 'failed', since: Date.now(), reason: vscode.l10n.t('invalid pattern: {0}', (e as Error).message) });
+      return undefined;
+    }
+    const watch: Watch = {
+      terminal,
+      ready,
+      error,
+      window: '',
+      stopRequested: false,
+      closeSub: vscode.window.onDidCloseTerminal(t => {
+        if (t === terminal) this.exited(key, watch, t.exitStatus?.code);
+      })
+    };
+    this.watches.set(key, watch);
+    const port = options.readyPort;
+    if (port) {
+      watch.probe = setInterval(async () => {
+        if (!await isListening(port) || this.watches.get(key) !== watch) return;
+        clearInterval(watch.probe);
+        watch.probe = undefined;
+        this.set(key, { status: 'ready', since: Date.now() });
+      }, PORT_PROBE_INTERVAL_MS);
+    }
+    this.set(key, { status: ready || port ? 'starting' : 'ready', since: Date.now() });
+    return {
+      output: data => this.output(key, watch, data),
+      exited: exitCode => this.exited(key, watch, exitCode)
+    };
+  }
+
+  // The last pattern found wins: a dev server can fail, then recover
+  private output(key: string, watch: Watch, data: string) {
+    if (this.watches.get(key) !== watch || (!watch.ready && !watch.error)) return;
+    watch.window = (watch.window + stripAnsi(data)).slice(-MATCH_WINDOW_LENGTH);
+    const readyAt = lastMatch(watch.ready, watch.window);
+    const errorAt = lastMatch(watch.error, watch.window);
+    if (!readyAt && !errorAt) return;
+    watch.window = '';
+    if (errorAt && (!readyAt || errorAt.index > readyAt.index)) {
+      this.set(key, { status: 'failed', since: Date.now(), reason: errorAt.line });
+    } else if (this.states.get(key)?.status !== 'ready') {
+      this.set(key, { status: 'ready', since: Date.now() });
+    }
+  }
+
+  // The command ended (or its terminal closed): stopped when asked or exit code 0
+  private exited(key: string, watch: Watch, exitCode: number | undefined) {
+    if (this.watches.get(key) !== watch) return;
+    this.unwatch(key);
+    const stopped = watch.stopRequested || !exitCode;
+    this.set(key, stopped
+      ? { status: 'stopped', since: Date.now() }
+      : { status: 'failed', since: Date.now(), reason: vscode.l10n.t('stopped with code {0}', exitCode) });
+  }
+
+  // Marks the coming exit as intentional (Stop, Kill terminal)
+  requestStop(key: string) {
+    const watch = this.watches.get(key);
+    if (watch) watch.stopRequested = true;
+  }
+
+  // True once ready; false if the service fails, stops, times out or the wait is cancelled
+  waitUntilReady(key: string, token?: vscode.CancellationToken, timeoutMs = SERVICE_READY_TIMEOUT_MS): Promise<boolean> {
+    const settled = (state: ServiceState | undefined) => state?.status === 'ready' ? true : state?.status === 'starting' ? undefined : false;
+    const now = settled(this.states.get(key));
+    if (now !== undefined) return Promise.resolve(now);
+    return new Promise(resolve => {
+      const done = (result: boolean) => {
+        clearTimeout(timer);
+        sub.dispose();
+        cancelSub?.dispose();
+        resolve(result);
+      };
+      const timer = setTimeout(() => done(false), timeoutMs);
+      const sub = this.onDidChange(changed => {
+        if (changed !== key) return;
+        const result = settled(this.states.get(key));
+        if (result !== undefined) done(result);
+      });
+      const cancelSub = token?.onCancellationRequested(() => done(false));
+    });
+  }
+
+  private set(key: string, state: ServiceState) {
+    this.states.set(key, state);
+    this._onDidChange.fire(key);
+  }
+
+  private unwatch(key: string) {
+    const watch = this.watches.get(key);
+    if (!watch) return;
+    if (watch.probe) clearInterval(watch.probe);
+    watch.closeSub.dispose();
+    this.watches.delete(key);
+  }
+
+  dispose() {
+    [...this.watches.keys()].forEach(key => this.unwatch(key));
+    this._onDidChange.dispose();
+  }
+}
+
+function lastMatch(pattern: RegExp | undefined, text: string): { index: number; line: string } | undefined {
+  if (!pattern) return undefined;
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  let last: RegExpExecArray | undefined;
+  for (const m of text.matchAll(global)) last = m as RegExpExecArray;
+  if (!last) return undefined;
+  const start = text.lastIndexOf('\n', last.index) + 1;
+  const end = text.indexOf('\n', last.index);
+  return { index: last.index, line: text.slice(start, end < 0 ? undefined : end).trim() };
+}
+
+// localhost may resolve to IPv4 or IPv6 depending on the server
+async function isListening(port: number): Promise<boolean> {
+  return await canConnect('127.0.0.1', port) || await canConnect('::1', port);
+}
+
+function canConnect(host: string, port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(PORT_PROBE_INTERVAL_MS);
+    socket.once('connect', () => { socket.destroy(); resolve(true); });
+    socket.once('timeout', () => { socket.destroy(); resolve(false); });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+export function summarizeServiceState(state: ServiceState): string {
+  switch (state.status) {
+    case 'starting': return vscode.l10n.t('starting…');
+    case 'ready': return vscode.l10n.t('ready');
+    case 'stopped': return vscode.l10n.t('stopped');
+    case 'failed': return vscode.l10n.t('error: {0}', state.reason);
+  }
+}
+
+export function serviceStateIcon(state: ServiceState | undefined): vscode.ThemeIcon | undefined {
+  switch (state?.status) {
+    case 'starting': return new vscode.ThemeIcon('loading~spin');
+    case 'ready': return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+    case 'failed': return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    case 'stopped': return new vscode.ThemeIcon('circle-slash');
+    default: return undefined;
+  }
+}
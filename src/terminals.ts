@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+
+const OWNERS_KEY = 'terminalShortcuts.terminalOwners';
+const INTERRUPT_TIMEOUT_MS = 3000;
+
+interface Owner {
+  key: string; // shortcut key
+  name: string; // name given at creation; sequence lanes add " #n"
+}
+
+// Terminals created by the extension, by shortcut. A terminal is found by its
+// owner, not by its current name: terminals opened or renamed by the user are
+// never reused. Ownership survives window reloads (matched by process id).
+export class TerminalRegistry implements vscode.Disposable {
+  private readonly owners = new Map<vscode.Terminal, Owner>();
+  private readonly pids = new Map<vscode.Terminal, number>();
+  private readonly busy = new Set<vscode.Terminal>();
+  private readonly disposables: vscode.Disposable[];
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  readonly onDidChange = this._onDidChange.event; // shortcut key whose terminals changed
+
+  constructor(private readonly state: vscode.Memento) {
+    this.disposables = [
+      vscode.window.onDidStartTerminalShellExecution(e => this.busy.add(e.terminal)),
+      vscode.window.onDidEndTerminalShellExecution(e => this.busy.delete(e.terminal)),
+      vscode.window.onDidCloseTerminal(t => this.forget(t))
+    ];
+  }
+
+  // Re-adopts the terminals that survived a window reload
+  async restore() {
+    const saved = this.state.get<(Owner & { pid: number })[]>(OWNERS_KEY, []);
+    if (!saved.length) return;
+    for (const terminal of vscode.window.terminals) {
+      const pid = await terminal.processId;
+      const owner = saved.find(o => o.pid === pid);
+      if (!owner || this.owners.has(terminal)) continue;
+      this.owners.set(terminal, { key: owner.key, name: owner.name });
+      this.pids.set(terminal, owner.pid);
+      this._onDidChange.fire(owner.key);
+    }
+    this.save();
+  }
+
+  register(terminal: vscode.Terminal, key: string, name: string) {
+    this.owners.set(terminal, { key, name });
+    this._onDidChange.fire(key);
+    terminal.processId.then(pid => {
+      if (pid === undefined || !this.owners.has(terminal)) return;
+      this.pids.set(terminal, pid);
+      this.save();
+    });
+  }
+
+  // Open terminals of the shortcut, oldest first
+  terminalsOf(key: string): vscode.Terminal[] {
+    return [...this.owners].filter(([t, o]) => o.key === key && !t.exitStatus).map(([t]) => t);
+  }
+
+  // Newest terminal of the shortcut with that name
+  find(key: string, name: string): vscode.Terminal | undefined {
+    return this.terminalsOf(key).filter(t => this.owners.get(t)!.name === name).pop();
+  }
+
+  // An idle terminal when there is one, else the newest
+  findForRun(key: string, name: string): vscode.Terminal | undefined {
+    const candidates = this.terminalsOf(key).filter(t => this.owners.get(t)!.name === name);
+    return candidates.find(t => !this.isBusy(t)) ?? candidates.pop();
+  }
+
+  // Only known through shell integration: without it a terminal looks idle
+  isBusy(terminal: vscode.Terminal): boolean {
+    return this.busy.has(terminal);
+  }
+
+  isRunning(key: string): boolean {
+    return this.terminalsOf(key).some(t => this.isBusy(t));
+  }
+
+  // Sends Ctrl+C; true once the running command has ended
+  interrupt(terminal: vscode.Terminal, timeoutMs = INTERRUPT_TIMEOUT_MS): Promise<boolean> {
+    terminal.sendText('\x03', false);
+    if (!this.isBusy(terminal)) return Promise.resolve(true);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        sub.dispose();
+        resolve(!this.isBusy(terminal));
+      }, timeoutMs);
+      const sub = vscode.window.onDidEndTerminalShellExecution(e => {
+        if (e.terminal !== terminal) return;
+        clearTimeout(timer);
+        sub.dispose();
+        resolve(true);
+      });
+    });
+  }
+
+  private forget(terminal: vscode.Terminal) {
+    this.busy.delete(terminal);
+    const owner = this.owners.get(terminal);
+    if (!owner) return;
+    this.owners.delete(terminal);
+    this.pids.delete(terminal);
+    this.save();
+    this._onDidChange.fire(owner.key);
+  }
+
+  private save() {
+    const owners = [...this.owners].flatMap(([t, o]) => {
+      const pid = this.pids.get(t);
+      return pid === undefined ? [] : [{ ...o, pid }];
+    });
+    this.state.update(OWNERS_KEY, owners);
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
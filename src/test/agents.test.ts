@@ -0,0 +1,61 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { exec } from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AgentProfileError, agentPromptCommand, agentStartCommand, fileReference, pasteToTerminal, resolveAgentProfile } from '../agents';
+import { TerminalShortcutConfig } from '../types';
+
+// Drives examples/fake-agent.js through the commands a profile builds, as the
+// terminal would run them
+const agent = `"${process.execPath}" "${path.join(__dirname, '..', '..', 'examples', 'fake-agent.js')}"`;
+const custom = {
+  fake: { start: agent, resume: `${agent} --continue`, prompt: `${agent} \${prompt}`, fileReference: '#${path}' }
+};
+
+// The shell exec() runs the commands in
+const shell = process.platform === 'win32' ? 'cmd' : 'posix';
+
+function run(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { timeout: 10_000 }, (error, stdout) => error ? reject(error) : resolve(stdout));
+  });
+}
+
+test('starts a new session with the profile command', async () => {
+  const s = { id: 'agent', label: 'Agent', agent: 'fake' } as TerminalShortcutConfig;
+  const profile = resolveAgentProfile('fake', custom);
+  const output = await run(String(agentStartCommand(s, profile)));
+  assert.match(output, /fake-agent: nouvelle session/);
+});
+
+test('resumes the previous session', async () => {
+  const profile = resolveAgentProfile({ profile: 'fake', readyDelayMs: 0 }, custom);
+  assert.equal(profile.readyDelayMs, 0);
+  assert.match(await run(profile.resume!), /session précédente reprise/);
+});
+
+test('passes the first prompt as one quoted argument', async () => {
+  const profile = resolveAgentProfile('fake', custom);
+  const output = await run(agentPromptCommand(profile, `it's "quoted" & $HOME %PATH% \`pwd\``, shell)!);
+  assert.match(output, /question reçue: it's "quoted" & \$HOME %PATH% `pwd`\n/);
+});
+
+test('the shortcut command wins over the profile start', () => {
+  const s = { id: 'agent', label: 'Agent', command: 'my-agent --fast' } as TerminalShortcutConfig;
+  assert.equal(agentStartCommand(s, resolveAgentProfile('fake', custom)), 'my-agent --fast');
+});
+
+test('unknown profiles are reported with the known ones', () => {
+  assert.throws(() => resolveAgentProfile('nope', custom), (e: Error) => e instanceof AgentProfileError && /claude/.test(e.message) && /fake/.test(e.message));
+});
+
+test('file references and pastes use the profile format', () => {
+  const profile = resolveAgentProfile('fake', custom);
+  assert.equal(fileReference(profile, 'src\\my file.ts'), '#"src/my file.ts"');
+  const sent: [string, boolean | undefined][] = [];
+  const terminal = { sendText: (text: string, addNewLine?: boolean) => sent.push([text, addNewLine]) } as unknown as vscode.Terminal;
+  pasteToTerminal(terminal, 'line 1\nline 2', true);
+  assert.deepEqual(sent, [['\x1b[200~line 1\nline 2\x1b[201~', false], ['\r', false]]);
+});
@@ -0,0 +1,29 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as vscode from 'vscode';
+import { isRunShortcutRequest, parseRunUri } from '../api';
+
+const uri = (text: string) => vscode.Uri.parse(text);
+
+test('parseRunUri reads the id, args and variables of a /run link', () => {
+  assert.deepEqual(parseRunUri(uri('vscode://julien-dev.terminal-ai-shortcuts/run?id=build&arg.env=prod&var.input:model=opus')), {
+    id: 'build',
+    args: { env: 'prod' },
+    variables: { 'input:model': 'opus' }
+  });
+  assert.deepEqual(parseRunUri(uri('vscode://julien-dev.terminal-ai-shortcuts/run/?id=a%20b')), { id: 'a b', args: undefined, variables: undefined });
+});
+
+test('parseRunUri ignores other paths and links without id', () => {
+  assert.equal(parseRunUri(uri('vscode://julien-dev.terminal-ai-shortcuts/open?id=build')), undefined);
+  assert.equal(parseRunUri(uri('vscode://julien-dev.terminal-ai-shortcuts/run?arg.env=prod')), undefined);
+  assert.equal(parseRunUri(uri('vscode://julien-dev.terminal-ai-shortcuts/run?id=')), undefined);
+});
+
+test('isRunShortcutRequest accepts objects with a string id', () => {
+  assert.equal(isRunShortcutRequest({ id: 'build', wait: true }), true);
+  assert.equal(isRunShortcutRequest('build'), false);
+  assert.equal(isRunShortcutRequest({ id: 3 }), false);
+  assert.equal(isRunShortcutRequest(null), false);
+});
@@ -0,0 +1,43 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ArgValidationError, argSubstitutions, checkArgValue, completeArgs, defaultArgValue } from '../args';
+import { ShortcutArgConfig } from '../types';
+
+const env: ShortcutArgConfig = { name: 'env', type: 'enum', options: ['dev', { label: 'Production', value: 'prod' }] };
+const verbose: ShortcutArgConfig = { name: 'verbose', type: 'boolean', trueValue: '--verbose', falseValue: '' };
+const version: ShortcutArgConfig = { name: 'version', pattern: '^\\d+\\.\\d+$', default: '1.0' };
+
+test('defaults: the given default, else the first option, false or empty', () => {
+  assert.equal(defaultArgValue(env), 'dev');
+  assert.equal(defaultArgValue(verbose), 'false');
+  assert.equal(defaultArgValue({ ...verbose, default: true }), 'true');
+  assert.equal(defaultArgValue(version), '1.0');
+  assert.equal(defaultArgValue({ name: 'message' }), '');
+});
+
+test('checkArgValue validates booleans, options and patterns', () => {
+  assert.equal(checkArgValue(verbose, 'true'), undefined);
+  assert.ok(checkArgValue(verbose, 'yes'));
+  assert.equal(checkArgValue(env, 'prod'), undefined);
+  assert.ok(checkArgValue(env, 'Production'));
+  assert.equal(checkArgValue(version, '2.10'), undefined);
+  assert.ok(checkArgValue(version, 'v2'));
+  assert.equal(checkArgValue({ name: 'free' }, 'anything'), undefined);
+});
+
+test('completeArgs fills in defaults and rejects invalid answers', () => {
+  assert.deepEqual(completeArgs([env, verbose, version], { verbose: 'true' }), { env: 'dev', verbose: 'true', version: '1.0' });
+  assert.throws(() => completeArgs([env], { env: 'staging' }), (e: Error) => e instanceof ArgValidationError && e.message.startsWith('env: '));
+});
+
+test('an invalid pattern is an ArgValidationError, before any value is checked', () => {
+  const broken: ShortcutArgConfig = { name: 'broken', pattern: '(' };
+  assert.throws(() => completeArgs([broken], { broken: 'x' }), (e: Error) => e instanceof ArgValidationError && e.name === 'ArgValidationError');
+});
+
+test('argSubstitutions maps booleans to their values', () => {
+  assert.deepEqual(argSubstitutions([env, verbose], { env: 'prod', verbose: 'true' }), { env: 'prod', verbose: '--verbose' });
+  assert.deepEqual(argSubstitutions([verbose], { verbose: 'false' }), { verbose: '' });
+  assert.deepEqual(argSubstitutions([{ name: 'flag', type: 'boolean' }], {}), { flag: 'false' });
+});
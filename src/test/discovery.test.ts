@@ -0,0 +1,19 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { globToRegExp } from '../discovery';
+
+test('* matches any characters, ? exactly one', () => {
+  assert.equal(globToRegExp('npm-test*').test('npm-test:unit'), true);
+  assert.equal(globToRegExp('npm-test*').test('npm-build'), false);
+  assert.equal(globToRegExp('make-?').test('make-a'), true);
+  assert.equal(globToRegExp('make-?').test('make-ab'), false);
+});
+
+test('matches the whole id, case-insensitively, with special characters taken literally', () => {
+  assert.equal(globToRegExp('npm-lint').test('npm-lint:fix'), false);
+  assert.equal(globToRegExp('NPM-*').test('npm-dev'), true);
+  assert.equal(globToRegExp('tasks-build.(all)').test('tasks-build.(all)'), true);
+  assert.equal(globToRegExp('tasks-build.(all)').test('tasks-buildx(all)'), false);
+  assert.equal(globToRegExp('a+b').test('aab'), false);
+});
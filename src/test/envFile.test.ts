@@ -0,0 +1,64 @@
+import './setup';
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { readEnvFiles } from '../envFile';
+import { VariableResolutionError, VariableResolver } from '../variables';
+
+let dir: string;
+const resolver = () => new VariableResolver([], { uri: { fsPath: dir }, name: 'app', index: 0 } as unknown as vscode.WorkspaceFolder, { get: async name => name === 'TOKEN' ? 's3cr3t' : undefined });
+const write = (name: string, text: string) => fs.writeFile(path.join(dir, name), text);
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'env-file-'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('parses assignments, export, comments and quotes', async () => {
+  await write('.env', [
+    '# comment',
+    '',
+    'export PORT=3000',
+    'HOST = localhost # trailing comment',
+    'GREETING="hello\\nworld"',
+    'QUOTE="say \\"hi\\""',
+    'RAW=\'${PORT} stays\'',
+    'HASH=a#b'
+  ].join('\n'));
+  assert.deepEqual(await readEnvFiles(['.env'], resolver()), {
+    PORT: '3000',
+    HOST: 'localhost',
+    GREETING: 'hello\nworld',
+    QUOTE: 'say "hi"',
+    RAW: '${PORT} stays',
+    HASH: 'a#b'
+  });
+});
+
+test('expands variables defined above, VS Code variables and secrets', async () => {
+  await write('expand.env', 'PORT=8080\nURL=http://localhost:${PORT}/api\nROOT=${workspaceFolder}\nAUTH=Bearer ${secret:TOKEN}\n');
+  const env = await readEnvFiles([path.join(dir, 'expand.env')], resolver());
+  assert.equal(env!.URL, 'http://localhost:8080/api');
+  assert.equal(env!.ROOT, dir);
+  assert.equal(env!.AUTH, 'Bearer s3cr3t');
+});
+
+test('a later file wins', async () => {
+  await write('a.env', 'MODE=dev\nKEEP=1\n');
+  await write('b.env', 'MODE=prod\r\n');
+  assert.deepEqual(await readEnvFiles(['a.env', 'b.env'], resolver()), { MODE: 'prod', KEEP: '1' });
+});
+
+test('invalid lines, missing files and unknown secrets stop the run', async () => {
+  await write('bad.env', 'OK=1\nnot an assignment\n');
+  await assert.rejects(readEnvFiles(['bad.env'], resolver()), (e: Error) => e instanceof VariableResolutionError && e.message.includes('bad.env:2'));
+  await assert.rejects(readEnvFiles(['missing.env'], resolver()), VariableResolutionError);
+  await write('secret.env', 'KEY=${secret:OTHER}\n');
+  await assert.rejects(readEnvFiles(['secret.env'], resolver()), VariableResolutionError);
+});
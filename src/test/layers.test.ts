@@ -0,0 +1,51 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LAYER_LABELS, describeOrigins, mergeLayers, topLayer } from '../layers';
+import { TerminalShortcutConfig } from '../types';
+
+const entry = (config: Partial<TerminalShortcutConfig> & { id: string }) => config as TerminalShortcutConfig;
+
+test('higher layers override field by field', () => {
+  const [merged] = mergeLayers([
+    { layer: 'user', commands: [entry({ id: 'build', label: 'Build', command: 'npm run build', focus: true })] },
+    { layer: 'file', commands: [entry({ id: 'build', command: 'pnpm build' })] }
+  ]);
+  assert.deepEqual(merged.config, { id: 'build', label: 'Build', command: 'pnpm build', focus: true });
+  assert.deepEqual(merged.origins, { label: 'user', command: 'file', focus: 'user' });
+  assert.deepEqual(merged.layers, ['user', 'file']);
+});
+
+test('env and icon are merged key by key', () => {
+  const [merged] = mergeLayers([
+    { layer: 'file', commands: [entry({ id: 'dev', env: { API_URL: 'http://prod', MODE: 'dev' } })] },
+    { layer: 'local', commands: [entry({ id: 'dev', env: { API_URL: 'http://localhost' } })] }
+  ]);
+  assert.deepEqual(merged.config.env, { API_URL: 'http://localhost', MODE: 'dev' });
+  assert.equal(merged.origins['env.API_URL'], 'local');
+  assert.equal(merged.origins['env.MODE'], 'file');
+});
+
+test('keeps first-definition order, skips entries without id, leaves the base untouched', () => {
+  const base = mergeLayers([{ layer: 'user', commands: [entry({ id: 'a', label: 'A' }), entry({ id: 'b', label: 'B' })] }]);
+  const merged = mergeLayers([
+    { layer: 'file', commands: [entry({ id: 'c', label: 'C' }), entry({ id: 'a', label: 'A2' }), { label: 'no id' } as TerminalShortcutConfig]
+  }], base);
+  assert.deepEqual(merged.map(m => m.config.id), ['a', 'b', 'c']);
+  assert.equal(merged[0].config.label, 'A2');
+  assert.equal(base[0].config.label, 'A');
+  assert.deepEqual(base[0].layers, ['user']);
+});
+
+test('topLayer is the highest priority layer', () => {
+  assert.equal(topLayer(['local', 'detected', 'user']), 'local');
+  assert.equal(topLayer([]), undefined);
+});
+
+test('describeOrigins groups fields by layer, lowest layer first', () => {
+  assert.equal(
+    describeOrigins({ command: 'local', label: 'user', 'env.TOKEN': 'local', focus: 'user' }),
+    `${LAYER_LABELS.user}: label, focus\n${LAYER_LABELS.local}: command, env.TOKEN`
+  );
+  assert.equal(describeOrigins({}), '');
+});
@@ -0,0 +1,18 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { quoteShellArgument, shellKind } from '../platform';
+
+test('shellKind reads the executable name, Windows paths included', () => {
+  assert.equal(shellKind('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+  assert.equal(shellKind('C:\\Program Files\\PowerShell\\7\\pwsh.exe'), 'powershell');
+  assert.equal(shellKind('/usr/local/bin/pwsh'), 'powershell');
+  assert.equal(shellKind('C:\\Program Files\\Git\\bin\\bash.exe'), 'posix');
+  assert.equal(shellKind('/bin/zsh'), 'posix');
+});
+
+test('quoteShellArgument keeps variables and backticks literal for each shell', () => {
+  assert.equal(quoteShellArgument(`it's $HOME \`pwd\``, 'posix'), `'it'\\''s $HOME \`pwd\`'`);
+  assert.equal(quoteShellArgument(`it's $HOME \`pwd\` ‘x’`, 'powershell'), `'it''s $HOME \`pwd\` ‘‘x’’'`);
+  assert.equal(quoteShellArgument('say "hi" to %USERNAME%', 'cmd'), '"say ""hi"" to "^%"USERNAME"^%""');
+});
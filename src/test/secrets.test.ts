@@ -0,0 +1,26 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { StreamRedactor } from '../secrets';
+
+// Longest first, as SecretVault gives them
+const redactor = () => new StreamRedactor(() => [['LONG', 'abcdefgh'], ['TOKEN', 's3cr3t']]);
+
+test('redacts secrets inside one chunk', () => {
+  const r = redactor();
+  const out = r.push('token=s3cr3t, key=abcdefgh.') + r.flush();
+  assert.equal(out, 'token=${secret:TOKEN}, key=${secret:LONG}.');
+});
+
+test('redacts a secret split across chunks', () => {
+  const r = redactor();
+  const out = ['token=s3', 'cr', '3t and abcd', 'efgh done'].map(c => r.push(c)).join('') + r.flush();
+  assert.equal(out, 'token=${secret:TOKEN} and ${secret:LONG} done');
+});
+
+test('holds back only what could start a secret and releases it on flush', () => {
+  const r = redactor();
+  assert.equal(r.push('0123456789'), '012');
+  assert.equal(r.flush(), '3456789');
+  assert.equal(new StreamRedactor(() => []).push('no secrets'), 'no secrets');
+});
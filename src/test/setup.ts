@@ -0,0 +1,10 @@
+// Imported first by every test: 'vscode' resolves to the stand-in next to this
+// file, the real module only exists inside the extension host
+import Module = require('module');
+
+type ResolveFilename = (this: unknown, request: string, ...rest: unknown[]) => string;
+const loader = Module as unknown as { _resolveFilename: ResolveFilename };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request, ...rest) {
+  return request === 'vscode' ? require.resolve('./vscode') : resolveFilename.call(this, request, ...rest);
+};
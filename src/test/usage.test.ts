@@ -0,0 +1,89 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as vscode from 'vscode';
+import { UsageStore } from '../usage';
+import { LoadedShortcut } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+
+class MemoryMemento {
+  private readonly values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return [...this.values.keys()];
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown) {
+    this.values.set(key, value);
+  }
+}
+
+function shortcut(key: string, folder?: vscode.WorkspaceFolder): LoadedShortcut {
+  return { id: key, key, label: key, command: key, folder, origins: {}, layers: ['user'] };
+}
+
+function store() {
+  const global = new MemoryMemento();
+  const workspace = new MemoryMemento();
+  return { usage: new UsageStore(global, workspace), global, workspace };
+}
+
+async function runAt(usage: UsageStore, s: LoadedShortcut, at: number) {
+  const now = Date.now;
+  Date.now = () => at;
+  try {
+    await usage.recordRun(s);
+  } finally {
+    Date.now = now;
+  }
+}
+
+test('score weights each run by its age', async () => {
+  const { usage } = store();
+  const s = shortcut('build');
+  const now = 1_000_000_000_000;
+  await runAt(usage, s, now - 30 * 24 * HOUR - 1); // old
+  await runAt(usage, s, now - 10 * 24 * HOUR); // within 30 days
+  await runAt(usage, s, now - 2 * 24 * HOUR); // within a week
+  await runAt(usage, s, now - 5 * HOUR); // within a day
+  await runAt(usage, s, now - HOUR); // within 4 hours
+  assert.equal(usage.score(s, now), 10 + 30 + 50 + 70 + 100);
+  assert.equal(usage.score(shortcut('never'), now), 0);
+});
+
+test('only the last 10 runs count', async () => {
+  const { usage } = store();
+  const s = shortcut('test');
+  const now = 1_000_000_000_000;
+  for (let i = 0; i < 12; i++) await runAt(usage, s, now - HOUR);
+  assert.equal(usage.score(s, now), 10 * 100);
+});
+
+test('recent lists the shortcuts run, most recent first', async () => {
+  const { usage } = store();
+  const [a, b, c] = ['a', 'b', 'c'].map(k => shortcut(k));
+  await runAt(usage, a, 1000);
+  await runAt(usage, c, 3000);
+  await runAt(usage, b, 2000);
+  assert.deepEqual(usage.recent([a, b, c]).map(s => s.key), ['c', 'b', 'a']);
+  assert.equal(usage.lastRun(c), 3000);
+});
+
+test('folder shortcuts are kept in workspace state, the others in global state', async () => {
+  const { usage, global, workspace } = store();
+  const folder = { uri: vscode.Uri.file('/project'), name: 'project', index: 0 } as vscode.WorkspaceFolder;
+  const shared = shortcut('shared');
+  const own = shortcut('project:own', folder);
+  assert.equal(await usage.toggleFavorite(shared), true);
+  assert.equal(await usage.toggleFavorite(own), true);
+  assert.deepEqual(global.get('terminalShortcuts.favorites'), ['shared']);
+  assert.deepEqual(workspace.get('terminalShortcuts.favorites'), ['project:own']);
+  assert.equal(await usage.toggleFavorite(shared), false);
+  assert.equal(usage.isFavorite(shared), false);
+  assert.equal(usage.isFavorite(own), true);
+});
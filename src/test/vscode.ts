@@ -0,0 +1,31 @@
+// Stand-in for the 'vscode' module, for the tests run in plain Node (see
+// setup.ts): only what the tested modules use outside of an editor
+
+export const l10n = {
+  t(message: string, ...args: unknown[]): string {
+    return message.replace(/\{(\d+)\}/g, (m, i) => i < args.length ? String(args[i]) : m);
+  }
+};
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3
+}
+
+export class Uri {
+  private constructor(readonly scheme: string, readonly authority: string, readonly path: string, readonly query: string, readonly fragment: string) {}
+
+  static parse(value: string): Uri {
+    const url = new URL(value);
+    return new Uri(url.protocol.slice(0, -1), url.host, decodeURIComponent(url.pathname), url.search.slice(1), url.hash.slice(1));
+  }
+
+  static file(fsPath: string): Uri {
+    return new Uri('file', '', fsPath, '', '');
+  }
+
+  get fsPath(): string {
+    return this.path;
+  }
+}
@@ -0,0 +1,58 @@
+import './setup';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WhenFacts, WhenSyntaxError, existsPaths, parseWhen } from '../when';
+
+function facts(overrides: Partial<WhenFacts> = {}): WhenFacts {
+  return {
+    languageId: 'typescript',
+    activeFile: 'src/app/main.ts',
+    exists: p => p === 'docker-compose.yml',
+    gitBranch: 'main',
+    platform: 'linux',
+    isWorkspaceTrusted: true,
+    ...overrides
+  };
+}
+
+test('compares keys with ==, != and =~', () => {
+  assert.equal(parseWhen('editorLangId == typescript')(facts()), true);
+  assert.equal(parseWhen('editorLangId != typescript')(facts()), false);
+  assert.equal(parseWhen('gitBranch =~ /^release\\//')(facts({ gitBranch: 'release/1.2' })), true);
+  assert.equal(parseWhen('gitBranch =~ /^release\\//')(facts()), false);
+  assert.equal(parseWhen('platform == "linux"')(facts()), true);
+});
+
+test('a key alone is true when non-empty', () => {
+  assert.equal(parseWhen('gitBranch')(facts()), true);
+  assert.equal(parseWhen('gitBranch')(facts({ gitBranch: '' })), false);
+  assert.equal(parseWhen('isWorkspaceTrusted')(facts({ isWorkspaceTrusted: false })), false);
+});
+
+test('&& binds tighter than ||, parentheses and ! group', () => {
+  assert.equal(parseWhen('platform == windows || editorLangId == typescript && gitBranch == main')(facts()), true);
+  assert.equal(parseWhen('(platform == windows || editorLangId == typescript) && gitBranch == dev')(facts()), false);
+  assert.equal(parseWhen('!(gitBranch == dev)')(facts()), true);
+  assert.equal(parseWhen('!!isWorkspaceTrusted')(facts()), true);
+});
+
+test('file: matches the active file, by name when the glob has no "/"', () => {
+  assert.equal(parseWhen('file:*.ts')(facts()), true);
+  assert.equal(parseWhen('file:src/**/*.ts')(facts()), true);
+  assert.equal(parseWhen('file:**/main.{ts,js}')(facts()), true);
+  assert.equal(parseWhen('file:src/*.ts')(facts()), false);
+  assert.equal(parseWhen('file:*.ts')(facts({ activeFile: undefined })), false);
+});
+
+test('exists: asks the facts, and its paths are listed for watching', () => {
+  assert.equal(parseWhen('exists:docker-compose.yml')(facts()), true);
+  assert.equal(parseWhen('exists:Makefile')(facts()), false);
+  assert.deepEqual(existsPaths('exists:a.txt && (exists:b/c || gitBranch)'), ['a.txt', 'b/c']);
+  assert.deepEqual(existsPaths('"unterminated'), []);
+});
+
+test('rejects invalid clauses with WhenSyntaxError', () => {
+  for (const clause of ['', 'editorLangId ==', 'unknownKey', 'gitBranch =~ main', 'gitBranch =~ /(/', '(gitBranch', 'gitBranch gitBranch', '"open']) {
+    assert.throws(() => parseWhen(clause), WhenSyntaxError, clause);
+  }
+});
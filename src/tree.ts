@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { RunState, describeRunState, runStateIcon, summarizeRunState } from './runState';
+import { commandSummary } from './sequence';
+import { ServiceState, serviceStateIcon, summarizeServiceState } from './services';
+import { LAYER_LABELS, describeOrigins, isDetectedOnly } from './layers';
+import { LoadedGroup, LoadedShortcut, TerminalShortcutConfig } from './types';
+
+export type ShortcutIcon = { light?: vscode.Uri; dark?: vscode.Uri } | vscode.ThemeIcon | undefined;
+
+export const TREE_VIEW_IDS = ['terminalShortcutsView', 'terminalShortcutsViewExplorer'];
+const DRAG_MIME_TYPES = TREE_VIEW_IDS.map(id => `application/vnd.code.tree.${id.toLowerCase()}`);
+const COLLAPSED_GROUPS_KEY = 'terminalShortcuts.collapsedGroups';
+export const LOCKED_NOTICE = vscode.l10n.t('Restricted mode: workspace commands must be approved before running.');
+
+// Which part of the shortcut list a node covers: in multi-root workspaces every
+// folder (and the global settings) is its own scope; otherwise there is one scope.
+export type TreeScope = { folder: vscode.WorkspaceFolder | undefined } | undefined;
+
+function isRunning(state: RunState | undefined, service: ServiceState | undefined): boolean {
+  return state?.status === 'running' || service?.status === 'starting' || service?.status === 'ready';
+}
+
+export class ShortcutTreeItem extends vscode.TreeItem {
+  public readonly shortcut: LoadedShortcut;
+  constructor(shortcut: LoadedShortcut, icon: ShortcutIcon, state?: RunState, locked = false, service?: ServiceState) {
+    super(shortcut.label, vscode.TreeItemCollapsibleState.None);
+    this.shortcut = shortcut;
+    this.tooltip = `${shortcut.label} — ${commandSummary(shortcut)}`;
+    // One source: named; several: field by field
+    this.tooltip += shortcut.layers.length > 1
+      ? `\n\n${describeOrigins(shortcut.origins)}`
+      : shortcut.layers.length ? `\n${LAYER_LABELS[shortcut.layers[0]]}` : '';
+    if (shortcut.keybinding) this.tooltip += `\n${vscode.l10n.t('Keys: {0}', shortcut.keybinding)}`;
+    this.description = shortcut.terminalName ?? '';
+    // A service's run never ends: its readiness is shown instead
+    if (service) {
+      this.tooltip += `\n${vscode.l10n.t('Service: {0}', summarizeServiceState(service))}`;
+      this.description = [this.description, summarizeServiceState(service)].filter(Boolean).join(' · ');
+    } else if (state) {
+      this.tooltip += `\n${describeRunState(state)}`;
+      this.description = [this.description, summarizeRunState(state)].filter(Boolean).join(' · ');
+    }
+    if (locked) {
+      this.tooltip += `\n${LOCKED_NOTICE}`;
+      this.description = [this.description, vscode.l10n.t('not approved')].filter(Boolean).join(' · ');
+    }
+    icon = locked ? new vscode.ThemeIcon('lock') : (service ? serviceStateIcon(service) : runStateIcon(state)) ?? icon;
+    if (icon) {
+      this.iconPath = icon as any;
+    }
+    this.command = {
+      command: 'terminalShortcuts.runShortcut',
+      title: vscode.l10n.t('Run Terminal Shortcut'),
+      arguments: [shortcut.key]
+    };
+    // Detected and agent shortcuts get their own menu entries (pin, resume…),
+    // those with args "Run with Last Arguments", running ones a Stop button
+    this.contextValue = (isDetectedOnly(shortcut) ? 'terminalShortcutItem.detected'
+      : shortcut.agent ? 'terminalShortcutItem.agent'
+      : 'terminalShortcutItem') + (shortcut.args?.length ? '.args' : '') + (isRunning(state, service) ? '.running' : '');
+  }
+}
+
+// Groups shortcuts by owning workspace folder (multi-root only); folder undefined = user settings
+export class FolderTreeItem extends vscode.TreeItem {
+  constructor(public readonly folder: vscode.WorkspaceFolder | undefined) {
+    super(folder ? folder.name : vscode.l10n.t('Global'), vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `folder:${folder ? folder.uri.toString() : ''}`;
+    this.iconPath = new vscode.ThemeIcon(folder ? 'root-folder' : 'globe');
+    this.tooltip = folder ? folder.uri.fsPath : LAYER_LABELS.user;
+    this.contextValue = 'terminalShortcutFolder';
+  }
+}
+
+// A `group` path segment, e.g. "Docker" then "Docker/Compose"
+export class GroupTreeItem extends vscode.TreeItem {
+  constructor(public readonly path: string, public readonly scope: TreeScope, codicon: string | undefined, collapsed: boolean) {
+    super(path.split('/').pop()!, collapsed ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded);
+    this.id = groupNodeId(path, scope);
+    this.iconPath = new vscode.ThemeIcon(codicon || 'folder');
+    this.tooltip = path;
+    this.contextValue = 'terminalShortcutGroup';
+  }
+}
+
+export type ShortcutTreeNode = ShortcutTreeItem | FolderTreeItem | GroupTreeItem;
+
+function groupNodeId(path: string, scope: TreeScope): string {
+  const scopeKey = scope ? (scope.folder ? scope.folder.uri.toString() : 'global') : '';
+  return `group:${scopeKey}::${path}`;
+}
+
+// "a / b//c" -> "a/b/c"; empty -> ''
+export function normalizeGroup(group: string | undefined): string {
+  if (!group) return '';
+  return group.split('/').map(p => p.trim()).filter(Boolean).join('/');
+}
+
+function inScope(list: LoadedShortcut[], scope: TreeScope): LoadedShortcut[] {
+  return scope ? list.filter(s => s.folder === scope.folder) : list;
+}
+
+function byOrder(a: { order?: number }, b: { order?: number }): number {
+  return (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+}
+
+export class ShortcutTreeProvider implements vscode.TreeDataProvider<ShortcutTreeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly getShortcuts: () => LoadedShortcut[],
+    private readonly getGroups: () => LoadedGroup[],
+    private readonly toIcon: (s: LoadedShortcut) => ShortcutIcon,
+    private readonly getState: (key: string) => RunState | undefined,
+    private readonly getService: (key: string) => ServiceState | undefined,
+    private readonly isLocked: (s: LoadedShortcut) => boolean,
+    private readonly redact: (text: string) => string // secret values (see secrets.ts)
+  ) {}
+
+  refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: ShortcutTreeNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ShortcutTreeNode): Thenable<ShortcutTreeNode[]> {
+    const all = this.getShortcuts();
+    if (element instanceof FolderTreeItem) {
+      const scope = { folder: element.folder };
+      return Promise.resolve(this.groupChildren(inScope(all, scope), '', scope));
+    }
+    if (element instanceof GroupTreeItem) {
+      return Promise.resolve(this.groupChildren(inScope(all, element.scope), element.path, element.scope));
+    }
+    if (element) return Promise.resolve([]);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length < 2) {
+      return Promise.resolve(this.groupChildren(all, '', undefined));
+    }
+    const roots: ShortcutTreeNode[] = folders
+      .filter(f => all.some(s => s.folder === f))
+      .map(f => new FolderTreeItem(f));
+    if (all.some(s => !s.folder)) roots.push(new FolderTreeItem(undefined));
+    return Promise.resolve(roots);
+  }
+
+  // Sub-groups first (by configured order, then name), then shortcuts by `order`
+  private groupChildren(list: LoadedShortcut[], parent: string, scope: TreeScope): ShortcutTreeNode[] {
+    const subgroups = new Set<string>();
+    const direct: LoadedShortcut[] = [];
+    for (const s of list) {
+      const g = normalizeGroup(s.group);
+      if (g === parent) {
+        direct.push(s);
+      } else if (!parent || g.startsWith(parent + '/')) {
+        const rest = parent ? g.slice(parent.length + 1) : g;
+        subgroups.add(parent ? `${parent}/${rest.split('/')[0]}` : rest.split('/')[0]);
+      }
+    }
+    const collapsed = new Set(this.context.workspaceState.get<string[]>(COLLAPSED_GROUPS_KEY, []));
+    const groups = Array.from(subgroups)
+      .map(p => ({ path: p, config: this.findGroup(p, scope) }))
+      .sort((a, b) => byOrder(a.config ?? {}, b.config ?? {}) || a.path.localeCompare(b.path))
+      .map(g => new GroupTreeItem(g.path, scope, g.config?.codicon, collapsed.has(groupNodeId(g.path, scope))));
+    const items = [...direct].sort(byOrder).map(s => {
+      const item = new ShortcutTreeItem(s, this.toIcon(s), this.getState(s.key), this.isLocked(s), this.getService(s.key));
+      item.tooltip = this.redact(item.tooltip as string);
+      return item;
+    });
+    return [...groups, ...items];
+  }
+
+  private findGroup(path: string, scope: TreeScope): LoadedGroup | undefined {
+    const groups = this.getGroups().filter(g => normalizeGroup(g.path) === path);
+    if (!scope) return groups[0];
+    return groups.find(g => g.folder === scope.folder) ?? groups.find(g => !g.folder);
+  }
+
+  // Remembers collapsed groups across sessions (groups are expanded by default)
+  trackExpansion(view: vscode.TreeView<ShortcutTreeNode>): vscode.Disposable[] {
+    const update = (node: ShortcutTreeNode, isCollapsed: boolean) => {
+      if (!(node instanceof GroupTreeItem) || !node.id) return;
+      const collapsed = new Set(this.context.workspaceState.get<string[]>(COLLAPSED_GROUPS_KEY, []));
+      if (isCollapsed) collapsed.add(node.id); else collapsed.delete(node.id);
+      this.context.workspaceState.update(COLLAPSED_GROUPS_KEY, Array.from(collapsed));
+    };
+    return [
+      view.onDidCollapseElement(e => update(e.element, true)),
+      view.onDidExpandElement(e => update(e.element, false)),
+    ];
+  }
+}
+
+export interface ShortcutPatch {
+  shortcut: LoadedShortcut;
+  patch: Partial<TerminalShortcutConfig>;
+}
+
+// Drag shortcuts onto another shortcut (insert before it), a group (append to it)
+// or a folder / empty space (move to top level). The new `group` and `order`
+// values are written back to the source each shortcut came from.
+export class ShortcutDragAndDropController implements vscode.TreeDragAndDropController<ShortcutTreeNode> {
+  readonly dragMimeTypes = DRAG_MIME_TYPES;
+  readonly dropMimeTypes = DRAG_MIME_TYPES;
+
+  constructor(
+    private readonly getShortcuts: () => LoadedShortcut[],
+    private readonly persist: (patches: ShortcutPatch[]) => Promise<void>
+  ) {}
+
+  handleDrag(source: readonly ShortcutTreeNode[], dataTransfer: vscode.DataTransfer): void {
+    const dragged = source.filter((n): n is ShortcutTreeItem => n instanceof ShortcutTreeItem).map(n => n.shortcut);
+    if (!dragged.length) return;
+    for (const mime of DRAG_MIME_TYPES) {
+      dataTransfer.set(mime, new vscode.DataTransferItem(dragged));
+    }
+  }
+
+  async handleDrop(target: ShortcutTreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const transferItem = DRAG_MIME_TYPES.map(m => dataTransfer.get(m)).find(Boolean);
+    const dragged: LoadedShortcut[] | undefined = transferItem?.value;
+    if (!Array.isArray(dragged) || !dragged.length) return;
+
+    let group = '';
+    let scope: TreeScope;
+    let before: LoadedShortcut | undefined;
+    if (target instanceof ShortcutTreeItem) {
+      group = normalizeGroup(target.shortcut.group);
+      scope = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 1 ? { folder: target.shortcut.folder } : undefined;
+      before = target.shortcut;
+    } else if (target instanceof GroupTreeItem) {
+      group = target.path;
+      scope = target.scope;
+    } else if (target instanceof FolderTreeItem) {
+      scope = { folder: target.folder };
+    }
+
+    const movable = scope ? dragged.filter(s => s.folder === scope!.folder) : dragged;
+    if (movable.length < dragged.length) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A shortcut cannot be moved to another workspace folder.'));
+    }
+    if (!movable.length) return;
+
+    const patches = placeShortcuts(this.getShortcuts(), movable, group, scope, before);
+    if (patches.length) await this.persist(patches);
+  }
+}
+
+// `group`/`order` changes that put `movable` into `group` (before `before`, or
+// last), renumbering the siblings of that group
+export function placeShortcuts(current: LoadedShortcut[], movable: LoadedShortcut[], group: string, scope: TreeScope, before?: LoadedShortcut): ShortcutPatch[] {
+  const keys = new Set(movable.map(s => s.key));
+  const moving = current.filter(s => keys.has(s.key));
+  const siblings = inScope(current, scope)
+    .filter(s => normalizeGroup(s.group) === group && !keys.has(s.key))
+    .sort(byOrder);
+  const index = before ? siblings.findIndex(s => s.key === before.key) : -1;
+  siblings.splice(index >= 0 ? index : siblings.length, 0, ...moving);
+
+  const patches: ShortcutPatch[] = [];
+  siblings.forEach((s, order) => {
+    // Renumbering would pin every detected sibling: only moved ones are pinned
+    if (isDetectedOnly(s) && !keys.has(s.key)) return;
+    const patch: Partial<TerminalShortcutConfig> = {};
+    if (s.order !== order) patch.order = order;
+    if (normalizeGroup(s.group) !== group) patch.group = group || undefined;
+    if (Object.keys(patch).length) patches.push({ shortcut: s, patch });
+  });
+  return patches;
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+
+export type EnvMap = { [key: string]: string };
+
+export interface ShortcutIconConfig {
+  light?: string;
+  dark?: string;
+}
+
+// What a run does when the shortcut already has a terminal (see terminals.ts):
+//   reuse-if-idle      reuse an idle terminal, open another one next to a busy one
+//   always-new         always open a new terminal (same as `reuse: false`)
+//   restart            Ctrl+C the running command (dispose the terminal if it
+//                      does not stop) and run again
+//   refuse-if-running  do nothing while the command runs
+export type InstancePolicy = 'reuse-if-idle' | 'always-new' | 'restart' | 'refuse-if-running';
+
+export interface TerminalShortcutConfig {
+  id: string;
+  label: string;
+  command: string | string[]; // an array: lines run one after another
+  terminalName?: string;
+  cwd?: string;
+  env?: EnvMap; // may reference ${secret:NAME} (see secrets.ts)
+  envFile?: string | string[]; // dotenv files read at run time; `env` wins (see envFile.ts)
+  reuse?: boolean;
+  instancePolicy?: InstancePolicy; // replaces `reuse` when set
+  focus?: boolean;
+  statusBar?: boolean;
+  codicon?: string; // used in status bar
+  statusBarText?: string;
+  statusBarAlignment?: 'left' | 'right'; // default: terminalShortcuts.statusBar.alignment
+  statusBarPriority?: number; // higher is further left
+  statusBarColor?: string; // theme color id ("charts.green") or "#rrggbb"
+  statusBarBackground?: 'warning' | 'error'; // the only backgrounds VS Code allows
+  icon?: ShortcutIconConfig; // used in Explorer view
+  location?: 'editor' | 'panel';
+  viewColumn?: number; // for editor location
+  group?: string; // tree group, nested with '/' (e.g. "Docker/Compose")
+  order?: number; // position inside its group
+  steps?: ShortcutStep[]; // composite shortcut: replaces `command`
+  args?: ShortcutArgConfig[]; // asked at each run, referenced as ${arg:name} (see args.ts)
+  disabled?: boolean; // hides a shortcut inherited from a lower layer
+  when?: string; // shown only while the clause holds (see when.ts)
+  keybinding?: string; // chord written to the user's keybindings.json (see keybindings.ts)
+  confirm?: boolean | string; // ask before running; a string is the question shown
+  agent?: string | AgentProfileConfig; // CLI agent: profile name ("claude") or profile (see agents.ts)
+  background?: boolean; // service: hidden terminal, readiness tracked (see services.ts)
+  readyPattern?: string; // background: regex on the output meaning "ready"
+  readyPort?: number; // background: ready once localhost:port accepts connections
+  errorPattern?: string; // background: regex on the output meaning "failed"
+  autoStart?: boolean; // background: started when the workspace opens
+  dependsOn?: string | string[]; // ids of services started and ready before this shortcut runs
+  shellPath?: string; // shell of the created terminal instead of the default profile
+  shellArgs?: string | string[];
+  terminalProfile?: string; // name in terminal.integrated.profiles.<os> (ignored with shellPath)
+  sendEnter?: boolean; // false: the command is typed, not executed
+  windows?: PlatformOverrideConfig; // fields replaced on that OS (see platform.ts)
+  linux?: PlatformOverrideConfig;
+  osx?: PlatformOverrideConfig;
+}
+
+export type PlatformOverrideConfig = Partial<Pick<TerminalShortcutConfig, 'command' | 'cwd' | 'env' | 'shellPath' | 'shellArgs' | 'terminalProfile'>>;
+
+// How a CLI agent starts, resumes and receives context. `profile` names a
+// built-in or terminalShortcuts.agentProfiles entry that the other fields extend.
+export interface AgentProfileConfig {
+  profile?: string;
+  start?: string; // new session (when the shortcut has no `command`)
+  resume?: string; // resumes the previous session
+  prompt?: string; // new session with a first prompt: ${prompt}
+  fileReference?: string; // pasted file reference: ${path}, default "@${path}"
+  readyDelayMs?: number; // wait after starting before pasting
+}
+
+// A sequence step: another shortcut's id, an inline command (run in the
+// sequence's own terminal) or a group of steps run in parallel
+export type ShortcutStep = string | ShortcutStepConfig;
+
+export interface ShortcutStepConfig {
+  ref?: string;
+  command?: string;
+  label?: string;
+  parallel?: ShortcutStep[];
+}
+
+// Named prompt referenced as ${input:id} (same shape as tasks.json inputs)
+export interface ShortcutInputConfig {
+  id: string;
+  type: 'promptString' | 'pickString';
+  description?: string;
+  default?: string;
+  options?: (string | { label: string; value: string })[]; // pickString only
+  password?: boolean; // promptString only
+}
+
+// Argument of a shortcut, asked in a multi-step form before each run:
+//   string   free text           enum     choice among `options`
+//   boolean  yes/no              file     file of the folder matching `glob`
+//   recent   free text, offering the values of the previous runs
+export interface ShortcutArgConfig {
+  name: string;
+  type?: 'string' | 'enum' | 'boolean' | 'file' | 'recent'; // default "string"
+  description?: string;
+  default?: string | boolean;
+  options?: (string | { label: string; value: string })[]; // enum only
+  pattern?: string; // regex the value must match (string, recent, file)
+  glob?: string; // file only, relative to the folder (default "**/*")
+  trueValue?: string; // boolean: text substituted when yes (default "true")
+  falseValue?: string; // boolean: text substituted when no (default "false")
+}
+
+// Presentation of a tree group; shortcuts reference it through their `group` path
+export interface ShortcutGroupConfig {
+  path: string;
+  codicon?: string;
+  order?: number;
+}
+
+// Saved prompt sent into a shortcut's terminal (see prompts.ts)
+export interface PromptTemplateConfig {
+  name: string;
+  body: string; // ${file}, ${selectedText}, ${gitDiffStaged}, ${ask:Question}…
+  target?: string; // shortcut id; asked when missing
+  submit?: boolean; // press Enter after pasting (default true)
+}
+
+export interface FileConfig {
+  commands?: TerminalShortcutConfig[];
+  inputs?: ShortcutInputConfig[];
+  groups?: ShortcutGroupConfig[];
+  prompts?: PromptTemplateConfig[];
+}
+
+// Configuration sources, from lowest to highest priority (see layers.ts)
+export type ConfigLayer = 'detected' | 'provided' | 'default' | 'user' | 'workspace' | 'workspaceFolder' | 'file' | 'local';
+
+// Runtime view of a shortcut: the merged fields plus where they were loaded from.
+// Never written back as-is (see toShortcutConfig).
+export interface LoadedShortcut extends TerminalShortcutConfig {
+  key: string; // unique across workspace folders, passed to terminalShortcuts.runShortcut
+  folder?: vscode.WorkspaceFolder; // owning folder for folder-level shortcuts
+  origins: { [field: string]: ConfigLayer }; // layer that set each field
+  layers: ConfigLayer[]; // layers defining this id, lowest first
+}
+
+export interface LoadedInput extends ShortcutInputConfig {
+  folder?: vscode.WorkspaceFolder;
+}
+
+export interface LoadedGroup extends ShortcutGroupConfig {
+  folder?: vscode.WorkspaceFolder;
+}
+
+export interface LoadedPrompt extends PromptTemplateConfig {
+  key: string; // "folder:name" in multi-root workspaces
+  folder?: vscode.WorkspaceFolder;
+  layer: ConfigLayer;
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { LoadedShortcut } from './types';
+
+const RUNS_KEY = 'terminalShortcuts.usage';
+const FAVORITES_KEY = 'terminalShortcuts.favorites';
+const MAX_RUNS = 10; // remembered per shortcut
+const HOUR = 60 * 60 * 1000;
+
+// Weight of a run by its age: recent runs count more than old ones
+const AGE_WEIGHTS: [maxAge: number, weight: number][] = [
+  [4 * HOUR, 100],
+  [24 * HOUR, 70],
+  [7 * 24 * HOUR, 50],
+  [30 * 24 * HOUR, 30]
+];
+const OLD_RUN_WEIGHT = 10;
+
+// Favorites and runs of the shortcuts, for the run picker and the status bar.
+// Folder shortcuts are kept in workspaceState; shared ones (settings, defaults,
+// other extensions) in globalState, so they follow the user across workspaces.
+export class UsageStore {
+  constructor(private readonly global: vscode.Memento, private readonly workspace: vscode.Memento) {}
+
+  isFavorite(s: LoadedShortcut): boolean {
+    return this.favorites(s).includes(s.key);
+  }
+
+  // Returns whether the shortcut is now a favorite
+  async toggleFavorite(s: LoadedShortcut): Promise<boolean> {
+    const favorites = this.favorites(s);
+    const added = !favorites.includes(s.key);
+    await this.state(s).update(FAVORITES_KEY, added ? [...favorites, s.key] : favorites.filter(k => k !== s.key));
+    return added;
+  }
+
+  async recordRun(s: LoadedShortcut) {
+    const runs = this.runs(s);
+    await this.state(s).update(RUNS_KEY, { ...runs, [s.key]: [Date.now(), ...(runs[s.key] ?? [])].slice(0, MAX_RUNS) });
+  }
+
+  lastRun(s: LoadedShortcut): number | undefined {
+    return this.runs(s)[s.key]?.[0];
+  }
+
+  // Frecency: each remembered run, weighted by its age
+  score(s: LoadedShortcut, now = Date.now()): number {
+    return (this.runs(s)[s.key] ?? []).reduce((total, at) => {
+      const weight = AGE_WEIGHTS.find(([maxAge]) => now - at < maxAge)?.[1] ?? OLD_RUN_WEIGHT;
+      return total + weight;
+    }, 0);
+  }
+
+  // Run at least once, most recent first
+  recent(shortcuts: LoadedShortcut[]): LoadedShortcut[] {
+    return shortcuts
+      .filter(s => this.lastRun(s) !== undefined)
+      .sort((a, b) => this.lastRun(b)! - this.lastRun(a)!);
+  }
+
+  private favorites(s: LoadedShortcut): string[] {
+    return this.state(s).get<string[]>(FAVORITES_KEY, []);
+  }
+
+  private runs(s: LoadedShortcut): { [key: string]: number[] } {
+    return this.state(s).get<{ [key: string]: number[] }>(RUNS_KEY, {});
+  }
+
+  private state(s: LoadedShortcut): vscode.Memento {
+    return s.folder ? this.workspace : this.global;
+  }
+}
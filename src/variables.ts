@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvMap, ShortcutInputConfig, TerminalShortcutConfig } from './types';
+import { ArgValues } from './args';
+
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+export class VariableResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VariableResolutionError';
+  }
+}
+
+// Values given for variables, by name without "${}" (e.g. "input:model", "file")
+export type VariableOverrides = { [name: string]: string };
+
+// Source of ${secret:NAME} values (see secrets.ts)
+export interface SecretLookup {
+  get(name: string): Promise<string | undefined>;
+}
+
+// Expands VS Code-style ${...} variables. One resolver is used per run so that
+// an ${input:id} referenced several times is only asked once.
+export class VariableResolver {
+  constructor(
+    private readonly inputs: ShortcutInputConfig[],
+    private readonly folder?: vscode.WorkspaceFolder,
+    private readonly secrets?: SecretLookup,
+    private readonly inputValues = new Map<string, string>(),
+    private readonly args?: ArgValues,
+    private readonly overrides?: VariableOverrides
+  ) {}
+
+  // Resolver for another shortcut of the same run (sequence step): input answers
+  // and overrides are shared, args are not
+  derive(inputs: ShortcutInputConfig[], folder?: vscode.WorkspaceFolder): VariableResolver {
+    return new VariableResolver(inputs, folder, this.secrets, this.inputValues, undefined, this.overrides);
+  }
+
+  // Same resolver, with ${arg:name} substituted from `args`
+  withArgs(args: ArgValues): VariableResolver {
+    return new VariableResolver(this.inputs, this.folder, this.secrets, this.inputValues, args, this.overrides);
+  }
+
+  // Same resolver, with the given variables fixed (API and URI callers)
+  withOverrides(overrides: VariableOverrides): VariableResolver {
+    return new VariableResolver(this.inputs, this.folder, this.secrets, this.inputValues, this.args, { ...this.overrides, ...overrides });
+  }
+
+  // Returns undefined if the user cancelled an input prompt
+  async resolve(text: string): Promise<string | undefined> {
+    const matches = Array.from(text.matchAll(VARIABLE_PATTERN));
+    if (!matches.length) return text;
+    let result = '';
+    let last = 0;
+    for (const m of matches) {
+      const value = await this.resolveVariable(m[1]);
+      if (value === undefined) return undefined;
+      result += text.slice(last, m.index) + value;
+      last = m.index! + m[0].length;
+    }
+    return result + text.slice(last);
+  }
+
+  private async resolveVariable(name: string): Promise<string | undefined> {
+    const override = this.overrides?.[name];
+    if (override !== undefined) return override;
+    const sep = name.indexOf(':');
+    if (sep >= 0) {
+      const kind = name.slice(0, sep);
+      const arg = name.slice(sep + 1);
+      switch (kind) {
+        case 'env': return process.env[arg] ?? '';
+        case 'config': return this.resolveConfig(arg);
+        case 'input': return this.resolveInput(arg);
+        case 'arg': return this.resolveArg(arg);
+        case 'secret': return this.resolveSecret(arg);
+        case 'workspaceFolder': return this.namedFolder(arg).uri.fsPath;
+        case 'workspaceFolderBasename': return this.namedFolder(arg).name;
+      }
+      throw new VariableResolutionError(vscode.l10n.t('Unknown variable: {0}', `\${${name}}`));
+    }
+    switch (name) {
+      case 'workspaceFolder': return this.currentFolder().uri.fsPath;
+      case 'workspaceFolderBasename': return this.currentFolder().name;
+      case 'userHome': return os.homedir();
+      case 'pathSeparator': return path.sep;
+      case 'file': return this.activeFile(name).fsPath;
+      case 'fileBasename': return path.basename(this.activeFile(name).fsPath);
+      case 'fileBasenameNoExtension': {
+        const p = this.activeFile(name).fsPath;
+        return path.basename(p, path.extname(p));
+      }
+      case 'fileExtname': return path.extname(this.activeFile(name).fsPath);
+      case 'fileDirname': return path.dirname(this.activeFile(name).fsPath);
+      case 'relativeFile': return vscode.workspace.asRelativePath(this.activeFile(name), false);
+      case 'relativeFileDirname': return path.dirname(vscode.workspace.asRelativePath(this.activeFile(name), false));
+      case 'lineNumber': return String(this.activeEditor(name).selection.active.line + 1);
+      case 'selectedText': {
+        const editor = this.activeEditor(name);
+        return editor.document.getText(editor.selection);
+      }
+    }
+    throw new VariableResolutionError(vscode.l10n.t('Unknown variable: {0}', `\${${name}}`));
+  }
+
+  private resolveConfig(key: string): string {
+    const value = vscode.workspace.getConfiguration(undefined, this.folder?.uri).get(key);
+    if (value === undefined || value === null) {
+      throw new VariableResolutionError(vscode.l10n.t('Setting not found for {0}', `\${config:${key}}`));
+    }
+    if (typeof value === 'object') {
+      throw new VariableResolutionError(vscode.l10n.t('Setting {0} is not a simple value ({1})', key, `\${config:${key}}`));
+    }
+    return String(value);
+  }
+
+  private async resolveSecret(name: string): Promise<string> {
+    const value = await this.secrets?.get(name);
+    if (value === undefined) {
+      throw new VariableResolutionError(vscode.l10n.t('Secret not set: {0} (Terminal AI Shortcuts: Set Secret…)', `\${secret:${name}}`));
+    }
+    return value;
+  }
+
+  private resolveArg(name: string): string {
+    const value = this.args?.[name];
+    if (value === undefined) {
+      throw new VariableResolutionError(vscode.l10n.t('Undeclared argument: {0} (add it to "args")', `\${arg:${name}}`));
+    }
+    return value;
+  }
+
+  private async resolveInput(id: string): Promise<string | undefined> {
+    const cached = this.inputValues.get(id);
+    if (cached !== undefined) return cached;
+    const input = this.inputs.find(i => i.id === id);
+    if (!input) {
+      throw new VariableResolutionError(vscode.l10n.t('Undeclared input: {0} (add it to "inputs")', `\${input:${id}}`));
+    }
+    let value: string | undefined;
+    if (input.type === 'pickString') {
+      const options = (input.options || []).map(o => typeof o === 'string' ? { label: o, value: o } : o);
+      if (!options.length) {
+        throw new VariableResolutionError(vscode.l10n.t('Input "{0}" of type pickString has no options', id));
+      }
+      const items = options.map(o => ({
+        label: o.label,
+        description: o.value === input.default ? vscode.l10n.t('(default)') : undefined,
+        value: o.value
+      }));
+      const pick = await vscode.window.showQuickPick(items, { placeHolder: input.description || id, ignoreFocusOut: true });
+      value = pick?.value;
+    } else if (input.type === 'promptString') {
+      value = await vscode.window.showInputBox({
+        prompt: input.description || id,
+        value: input.default,
+        password: input.password,
+        ignoreFocusOut: true
+      });
+    } else {
+      throw new VariableResolutionError(vscode.l10n.t('Unsupported input type for "{0}": {1}', id, (input as ShortcutInputConfig).type));
+    }
+    if (value !== undefined) this.inputValues.set(id, value);
+    return value;
+  }
+
+  private currentFolder(): vscode.WorkspaceFolder {
+    if (this.folder) return this.folder;
+    const active = vscode.window.activeTextEditor?.document.uri;
+    const folder = (active && vscode.workspace.getWorkspaceFolder(active)) || vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      throw new VariableResolutionError(vscode.l10n.t('No folder open for {0}', '${workspaceFolder}'));
+    }
+    return folder;
+  }
+
+  private namedFolder(name: string): vscode.WorkspaceFolder {
+    const folder = vscode.workspace.workspaceFolders?.find(f => f.name === name);
+    if (!folder) {
+      throw new VariableResolutionError(vscode.l10n.t('Workspace folder not found: {0}', name));
+    }
+    return folder;
+  }
+
+  private activeEditor(variable: string): vscode.TextEditor {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      throw new VariableResolutionError(vscode.l10n.t('No active editor for {0}', `\${${variable}}`));
+    }
+    return editor;
+  }
+
+  private activeFile(variable: string): vscode.Uri {
+    return this.activeEditor(variable).document.uri;
+  }
+}
+
+// Returns a copy of the shortcut with command, cwd, shellPath and env expanded,
+// or undefined if the user cancelled an input.
+export async function resolveShortcutVariables(s: TerminalShortcutConfig, resolver: VariableResolver): Promise<TerminalShortcutConfig | undefined> {
+  const command: string[] = [];
+  for (const line of typeof s.command === 'string' ? [s.command] : s.command) {
+    const value = await resolver.resolve(line);
+    if (value === undefined) return undefined;
+    command.push(value);
+  }
+  let cwd = s.cwd;
+  if (cwd !== undefined) {
+    cwd = await resolver.resolve(cwd);
+    if (cwd === undefined) return undefined;
+  }
+  let shellPath = s.shellPath;
+  if (shellPath !== undefined) {
+    shellPath = await resolver.resolve(shellPath);
+    if (shellPath === undefined) return undefined;
+  }
+  let env: EnvMap | undefined;
+  if (s.env) {
+    env = {};
+    for (const [key, raw] of Object.entries(s.env)) {
+      const value = await resolver.resolve(raw);
+      if (value === undefined) return undefined;
+      env[key] = value;
+    }
+  }
+  return { ...s, command: typeof s.command === 'string' ? command[0] : command, cwd, shellPath, env };
+}
@@ -0,0 +1,325 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { currentPlatform } from './platform';
+
+// What a `when` clause can test, for one workspace folder
+export interface WhenFacts {
+  languageId: string; // '' without a text editor
+  activeFile?: string; // relative to its workspace folder, with '/'
+  exists(relativePath: string): boolean;
+  gitBranch: string; // '' when detached or not a repository
+  platform: string; // windows, linux, osx
+  isWorkspaceTrusted: boolean;
+}
+
+export type WhenExpression = (facts: WhenFacts) => boolean;
+
+export class WhenSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhenSyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'op'; value: '&&' | '||' | '!' | '(' | ')' | '==' | '!=' | '=~' }
+  | { kind: 'word'; value: string }
+  | { kind: 'regex'; value: RegExp };
+
+const VALUE_KEYS: { [key: string]: (f: WhenFacts) => string | boolean } = {
+  editorLangId: f => f.languageId,
+  gitBranch: f => f.gitBranch,
+  platform: f => f.platform,
+  isWorkspaceTrusted: f => f.isWorkspaceTrusted
+};
+const OPERATORS = ['&&', '||', '==', '!=', '=~'] as const;
+
+// Parses a clause such as
+//   editorLangId == python && file:tests/**/*.py
+//   exists:docker-compose.yml && !(gitBranch =~ /^release\//)
+// Keys: editorLangId, gitBranch, platform, isWorkspaceTrusted (compared with
+// ==, != or =~ /regex/, or alone: true when non-empty), file:GLOB (active
+// file; a glob without '/' matches the file name) and exists:PATH.
+export function parseWhen(text: string): WhenExpression {
+  const tokens = tokenize(text);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new WhenSyntaxError(vscode.l10n.t('“{0}” expected', value));
+    pos++;
+  };
+
+  const parseOr = (): WhenExpression => {
+    const parts = [parseAnd()];
+    while (isOp('||')) {
+      pos++;
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : f => parts.some(p => p(f));
+  };
+  const parseAnd = (): WhenExpression => {
+    const parts = [parseUnary()];
+    while (isOp('&&')) {
+      pos++;
+      parts.push(parseUnary());
+    }
+    return parts.length === 1 ? parts[0] : f => parts.every(p => p(f));
+  };
+  const parseUnary = (): WhenExpression => {
+    if (isOp('!')) {
+      pos++;
+      const inner = parseUnary();
+      return f => !inner(f);
+    }
+    if (isOp('(')) {
+      pos++;
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    return parseTerm();
+  };
+  const parseTerm = (): WhenExpression => {
+    const token = tokens[pos++];
+    if (token?.kind !== 'word') throw new WhenSyntaxError(token ? vscode.l10n.t('Key expected') : vscode.l10n.t('Incomplete expression'));
+    const key = token.value;
+    if (key.startsWith('file:')) {
+      const glob = globToRegExp(key.slice(5));
+      const onName = !key.includes('/');
+      return f => !!f.activeFile && glob.test(onName ? path.posix.basename(f.activeFile) : f.activeFile);
+    }
+    if (key.startsWith('exists:')) {
+      const relativePath = key.slice(7);
+      return f => f.exists(relativePath);
+    }
+    const value = VALUE_KEYS[key];
+    if (!value) {
+      throw new WhenSyntaxError(vscode.l10n.t('Unknown key: "{0}" (keys: {1}, file:…, exists:…)', key, Object.keys(VALUE_KEYS).join(', ')));
+    }
+    const op = peek();
+    if (op?.kind !== 'op' || (op.value !== '==' && op.value !== '!=' && op.value !== '=~')) {
+      return f => !!value(f);
+    }
+    pos++;
+    const operand = tokens[pos++];
+    if (op.value === '=~') {
+      if (operand?.kind !== 'regex') throw new WhenSyntaxError(vscode.l10n.t('=~ expects a regular expression: /pattern/'));
+      return f => operand.value.test(String(value(f)));
+    }
+    if (operand?.kind !== 'word') throw new WhenSyntaxError(vscode.l10n.t('Value expected after {0}', op.value));
+    const equal = (f: WhenFacts) => String(value(f)) === operand.value;
+    return op.value === '==' ? equal : f => !equal(f);
+  };
+
+  const expression = parseOr();
+  if (pos < tokens.length) throw new WhenSyntaxError(vscode.l10n.t('Operator expected (&&, ||)'));
+  return expression;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const op = OPERATORS.find(o => text.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', value: op });
+      i += op.length;
+    } else if (c === '!' || c === '(' || c === ')') {
+      tokens.push({ kind: 'op', value: c });
+      i++;
+    } else if (c === '/' && tokens[tokens.length - 1]?.value === '=~') {
+      const m = /^\/((?:\\.|[^\\/])+)\/([a-z]*)/.exec(text.slice(i));
+      if (!m) throw new WhenSyntaxError(vscode.l10n.t('Unterminated regular expression'));
+      try {
+        tokens.push({ kind: 'regex', value: new RegExp(m[1], m[2]) });
+      } catch (e) {
+        throw new WhenSyntaxError(vscode.l10n.t('Invalid regular expression: {0}', (e as Error).message));
+      }
+      i += m[0].length;
+    } else if (c === '"' || c === '\'') {
+      const end = text.indexOf(c, i + 1);
+      if (end < 0) throw new WhenSyntaxError(vscode.l10n.t('Unterminated string'));
+      tokens.push({ kind: 'word', value: text.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < text.length && !/[\s()]/.test(text[end]) && !OPERATORS.some(o => text.startsWith(o, end))) end++;
+      tokens.push({ kind: 'word', value: text.slice(i, end) });
+      i = end;
+    }
+  }
+  return tokens;
+}
+
+// **, *, ? and {a,b}
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i++;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '{') {
+      source += '(?:';
+      braces++;
+    } else if (c === '}' && braces) {
+      source += ')';
+      braces--;
+    } else if (c === ',' && braces) {
+      source += '|';
+    } else {
+      source += c.replace(/[.+^$|()[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// `exists:` paths of a clause, to watch them
+export function existsPaths(text: string): string[] {
+  try {
+    return tokenize(text).flatMap(t => t.kind === 'word' && t.value.startsWith('exists:') ? [t.value.slice(7)] : []);
+  } catch {
+    return [];
+  }
+}
+
+// Current facts, kept up to date: editor, files watched for `exists:`, git
+// HEAD of each folder, workspace trust. onDidChange fires on any change.
+export class WhenContext implements vscode.Disposable {
+  private document: vscode.TextDocument | undefined = vscode.window.activeTextEditor?.document;
+  private readonly existing = new Set<string>(); // "<folder uri>|<path>"
+  private readonly branches = new Map<string, string>(); // by folder uri
+  private watchers: vscode.Disposable[] = [];
+  private generation = 0; // of the last track() call
+  private readonly subscriptions: vscode.Disposable[];
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor() {
+    this.subscriptions = [
+      // Focusing a terminal opened in the editor area leaves no active text
+      // editor: the last one still counts while editors are visible
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        const document = editor?.document ?? (vscode.window.visibleTextEditors.length ? this.document : undefined);
+        if (document === this.document) return;
+        this.document = document;
+        this._onDidChange.fire();
+      }),
+      // Changing the language reopens the document
+      vscode.workspace.onDidOpenTextDocument(document => {
+        if (document.uri.toString() !== this.document?.uri.toString()) return;
+        this.document = document;
+        this._onDidChange.fire();
+      }),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this._onDidChange.fire())
+    ];
+  }
+
+  // Watches the `exists:` paths and the git HEAD of the folders. A newer call
+  // (overlapping reloads) disposes the watchers: an older one stops adding any.
+  async track(paths: string[]) {
+    const generation = ++this.generation;
+    const stale = () => generation !== this.generation;
+    this.watchers.forEach(w => w.dispose());
+    this.watchers = [];
+    this.existing.clear();
+    this.branches.clear();
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const checks = folders.flatMap(folder => [...new Set(paths)].map(async p => {
+      const id = `${folder.uri.toString()}|${p}`;
+      const set = (exists: boolean) => {
+        if (exists === this.existing.has(id)) return;
+        if (exists) this.existing.add(id);
+        else this.existing.delete(id);
+        this._onDidChange.fire();
+      };
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, p));
+      this.watchers.push(watcher, watcher.onDidCreate(() => set(true)), watcher.onDidDelete(() => set(false)));
+      const exists = await pathExists(path.join(folder.uri.fsPath, p));
+      if (!stale()) set(exists);
+    }));
+    const heads = folders.map(async folder => {
+      const head = await gitHeadFile(folder.uri.fsPath);
+      if (!head || stale()) return;
+      const update = async () => {
+        const branch = await readBranch(head);
+        if (stale() || branch === this.branches.get(folder.uri.toString())) return;
+        this.branches.set(folder.uri.toString(), branch);
+        this._onDidChange.fire();
+      };
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(path.dirname(head)), 'HEAD'));
+      this.watchers.push(watcher, watcher.onDidChange(update), watcher.onDidCreate(update));
+      await update();
+    });
+    await Promise.all([...checks, ...heads]);
+  }
+
+  // Shortcuts without a folder (user settings) see every folder: a file exists
+  // in any of them, the branch is the active file's folder's
+  facts(folder?: vscode.WorkspaceFolder): WhenFacts {
+    const folders = folder ? [folder] : vscode.workspace.workspaceFolders ?? [];
+    const documentFolder = this.document && vscode.workspace.getWorkspaceFolder(this.document.uri);
+    const branchFolder = folder ?? documentFolder ?? folders[0];
+    const inFolder = documentFolder && (!folder || documentFolder === folder);
+    return {
+      languageId: this.document?.languageId ?? '',
+      activeFile: inFolder ? path.relative(documentFolder.uri.fsPath, this.document!.uri.fsPath).split(path.sep).join('/') : undefined,
+      exists: p => folders.some(f => this.existing.has(`${f.uri.toString()}|${p}`)),
+      gitBranch: branchFolder ? this.branches.get(branchFolder.uri.toString()) ?? '' : '',
+      platform: currentPlatform(),
+      isWorkspaceTrusted: vscode.workspace.isTrusted
+    };
+  }
+
+  dispose() {
+    this.watchers.forEach(w => w.dispose());
+    this.subscriptions.forEach(s => s.dispose());
+    this._onDidChange.dispose();
+  }
+}
+
+async function pathExists(p: string): Promise<boolean> {
+  try {
+    await fs.stat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// .git/HEAD, or the HEAD of the directory a worktree's .git file points to
+async function gitHeadFile(folderPath: string): Promise<string | undefined> {
+  const dotGit = path.join(folderPath, '.git');
+  try {
+    const stat = await fs.stat(dotGit);
+    if (stat.isDirectory()) return path.join(dotGit, 'HEAD');
+    const m = /^gitdir:\s*(.+)$/m.exec(await fs.readFile(dotGit, 'utf8'));
+    return m ? path.join(path.resolve(folderPath, m[1].trim()), 'HEAD') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readBranch(headFile: string): Promise<string> {
+  try {
+    const m = /^ref:\s*refs\/heads\/(.+)$/m.exec(await fs.readFile(headFile, 'utf8'));
+    return m ? m[1].trim() : '';
+  } catch {
+    return '';
+  }
+}